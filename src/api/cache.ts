@@ -0,0 +1,233 @@
+import { ProviderType } from '../types';
+import { Message, RequestOptions } from './provider';
+import { hashString } from '../utils/hash';
+
+/**
+ * A cached response
+ */
+export interface ResponseCacheEntry {
+  response: string;
+  createdAt: number;
+  /** Entries used least recently are evicted first when the cache is full */
+  lastUsedAt: number;
+}
+
+/**
+ * Contents of the cache file: responses keyed by request
+ */
+export interface ResponseCacheData {
+  version: 1;
+  entries: Record<string, ResponseCacheEntry>;
+}
+
+/**
+ * Where the response cache is loaded from and saved to
+ */
+export interface ResponseCacheStore {
+  load(): Promise<ResponseCacheData>;
+  save(data: ResponseCacheData): Promise<void>;
+}
+
+/**
+ * Response cache settings
+ */
+export interface ResponseCacheOptions {
+  enabled: boolean;
+  /** How long a response stays valid */
+  ttlMs: number;
+  maxEntries: number;
+  /** The model a provider uses when a request doesn't pick one */
+  getModel: (type: ProviderType) => string;
+}
+
+/**
+ * Create an empty cache
+ */
+export function createEmptyCache(): ResponseCacheData {
+  return { version: 1, entries: {} };
+}
+
+/**
+ * Normalize a conversation so edits that don't change the text, like
+ * trailing spaces or extra blank lines, still hit the cache
+ */
+export function normalizeMessages(messages: Message[]): string {
+  return messages
+    .map((message) => {
+      const content = message.content
+        .replace(/\r\n?/g, '\n')
+        .replace(/[ \t]+$/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+      return `${message.role}\n${content}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Persistent cache of whole responses, so sending the same context to the
+ * same model again (reopening a note, toggling Muse, whispers after a
+ * reload) doesn't cost another request. Keyed by provider, model, system
+ * prompt and a hash of the normalized conversation.
+ */
+export class ResponseCache {
+  private store: ResponseCacheStore;
+  private getOptions: () => ResponseCacheOptions;
+  private data: ResponseCacheData | null = null;
+  private hits: number = 0;
+
+  constructor(store: ResponseCacheStore, getOptions: () => ResponseCacheOptions) {
+    this.store = store;
+    this.getOptions = getOptions;
+  }
+
+  /**
+   * Check whether responses are cached at all
+   */
+  isEnabled(): boolean {
+    return this.getOptions().enabled;
+  }
+
+  /**
+   * Key a request
+   * @param model The model the request names, or undefined for the provider's configured one
+   * @param options The request's generation parameters and response format, so
+   * changing e.g. max tokens doesn't serve replies cut short by the old limit
+   */
+  getKey(
+    kind: 'chat' | 'generate',
+    type: ProviderType,
+    model: string | undefined,
+    systemPrompt: string,
+    messages: Message[],
+    options: Pick<RequestOptions, 'params' | 'responseFormat'> = {}
+  ): string {
+    const resolvedModel = model || this.getOptions().getModel(type);
+    return [
+      kind,
+      type,
+      resolvedModel,
+      hashString(systemPrompt),
+      hashString(normalizeMessages(messages)),
+      hashString(JSON.stringify({ params: options.params ?? {}, responseFormat: options.responseFormat ?? null })),
+    ].join(':');
+  }
+
+  /**
+   * Load the cache file once
+   */
+  private async getData(): Promise<ResponseCacheData> {
+    if (!this.data) {
+      try {
+        this.data = await this.store.load();
+      } catch (error) {
+        console.error('Failed to load the response cache, starting empty:', error);
+        this.data = createEmptyCache();
+      }
+    }
+    return this.data;
+  }
+
+  /**
+   * Get a cached response that hasn't expired
+   * @returns The response, or null on a miss
+   */
+  async get(key: string): Promise<string | null> {
+    if (!this.isEnabled()) {
+      return null;
+    }
+
+    const data = await this.getData();
+    const entry = data.entries[key];
+    if (!entry) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (now - entry.createdAt > this.getOptions().ttlMs) {
+      delete data.entries[key];
+      return null;
+    }
+
+    entry.lastUsedAt = now;
+    this.hits++;
+    return entry.response;
+  }
+
+  /**
+   * Cache a response, evicting expired and least recently used entries
+   * to stay under the size cap
+   */
+  async set(key: string, response: string): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    const data = await this.getData();
+    const now = Date.now();
+    data.entries[key] = { response, createdAt: now, lastUsedAt: now };
+    this.evict(data, now);
+
+    // A failed write shouldn't fail the response the user is waiting for
+    try {
+      await this.store.save(data);
+    } catch (error) {
+      console.error('Failed to save the response cache:', error);
+    }
+  }
+
+  /**
+   * Drop expired entries, then the least recently used ones over the cap
+   */
+  private evict(data: ResponseCacheData, now: number): void {
+    const { ttlMs, maxEntries } = this.getOptions();
+
+    for (const key of Object.keys(data.entries)) {
+      if (now - data.entries[key].createdAt > ttlMs) {
+        delete data.entries[key];
+      }
+    }
+
+    const keys = Object.keys(data.entries);
+    if (keys.length <= maxEntries) {
+      return;
+    }
+    keys
+      .sort((a, b) => data.entries[a].lastUsedAt - data.entries[b].lastUsedAt)
+      .slice(0, keys.length - Math.max(0, maxEntries))
+      .forEach((key) => delete data.entries[key]);
+  }
+
+  /**
+   * Remove every cached response
+   * @returns How many responses were removed
+   */
+  async clear(): Promise<number> {
+    const data = await this.getData();
+    const count = Object.keys(data.entries).length;
+    this.data = createEmptyCache();
+    await this.store.save(this.data);
+    return count;
+  }
+
+  /**
+   * Get how many responses are cached
+   */
+  async getSize(): Promise<number> {
+    return Object.keys((await this.getData()).entries).length;
+  }
+
+  /**
+   * Get how many requests were answered from the cache this session
+   */
+  getHits(): number {
+    return this.hits;
+  }
+
+  /**
+   * Reset the session hit count
+   */
+  resetHits(): void {
+    this.hits = 0;
+  }
+}
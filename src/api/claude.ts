@@ -1,15 +1,60 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { DeveloperStats } from '../types';
-import { LLMProvider, StreamCallback, CompleteCallback } from './provider';
+import { VERSION } from '@anthropic-ai/sdk/version';
+import { DeveloperStats, GenerationParams } from '../types';
+import {
+  LLMProvider,
+  Message,
+  RequestOptions,
+  StreamCallback,
+  CompleteCallback,
+  ToolDefinition,
+  createAbortError,
+  getMessagesLength,
+  isAbortError,
+} from './provider';
+import {
+  ErrorHints,
+  classifyHttpError,
+  classifyRequestError,
+  createProviderError,
+  getErrorMessage,
+  withRetry,
+} from './errors';
+import { ConnectionDiagnostics, createDiagnostics, setCheck, setLatency } from './diagnostics';
+import { TokenUsage, UsageListener, createEmptyStats, recordUsage } from './stats';
 
 /**
- * Available Claude models
+ * User-facing wording for Claude failures
  */
-export const CLAUDE_MODELS = [
-  'claude-sonnet-4-20250514',
-  'claude-opus-4-20250514',
-  'claude-3-5-sonnet-20241022',
-  'claude-3-5-haiku-20241022',
+const CLAUDE_ERROR_HINTS: ErrorHints = {
+  'not-configured': 'Add your Claude API key in Enchanted Notes settings.',
+  auth: 'Claude rejected the API key. Check it in Enchanted Notes settings (console.anthropic.com → API Keys).',
+  'model-not-found': "The selected Claude model isn't available to your key. Pick another model in settings.",
+  overloaded: 'Claude is overloaded right now. Try again in a minute.',
+  network: "Couldn't reach the Claude API. Check your internet connection.",
+};
+
+/**
+ * Most cache breakpoints a request may carry, including the one on the system prompt
+ */
+const MAX_CACHE_BREAKPOINTS = 4;
+
+/**
+ * A Claude model and its human-readable name
+ */
+export interface ClaudeModelInfo {
+  id: string;
+  displayName: string;
+}
+
+/**
+ * Known Claude models, used when the Models API can't be reached
+ */
+export const CLAUDE_MODELS: ClaudeModelInfo[] = [
+  { id: 'claude-sonnet-4-20250514', displayName: 'Claude Sonnet 4' },
+  { id: 'claude-opus-4-20250514', displayName: 'Claude Opus 4' },
+  { id: 'claude-3-5-sonnet-20241022', displayName: 'Claude Sonnet 3.5' },
+  { id: 'claude-3-5-haiku-20241022', displayName: 'Claude Haiku 3.5' },
 ];
 
 /**
@@ -19,12 +64,9 @@ export class ClaudeProvider implements LLMProvider {
   readonly name = 'Claude';
   private client: Anthropic | null = null;
   private model: string;
-  private stats: DeveloperStats = {
-    tokensThisSession: 0,
-    tokensToday: 0,
-    lastResponseTime: 0,
-    currentContextSize: 0,
-  };
+  private stats: DeveloperStats = createEmptyStats();
+  private availableModels: ClaudeModelInfo[] | null = null;
+  private usageListener: UsageListener | null = null;
 
   constructor(apiKey: string, model: string = 'claude-sonnet-4-20250514') {
     this.model = model;
@@ -32,6 +74,7 @@ export class ClaudeProvider implements LLMProvider {
       this.client = new Anthropic({
         apiKey,
         dangerouslyAllowBrowser: true,
+        maxRetries: 0, // Retries are handled by withRetry so they can be classified and cancelled
       });
     }
   }
@@ -40,10 +83,13 @@ export class ClaudeProvider implements LLMProvider {
    * Update the API key
    */
   setApiKey(apiKey: string): void {
+    // A different key may have access to different models
+    this.availableModels = null;
     if (apiKey) {
       this.client = new Anthropic({
         apiKey,
         dangerouslyAllowBrowser: true,
+        maxRetries: 0, // Retries are handled by withRetry so they can be classified and cancelled
       });
     } else {
       this.client = null;
@@ -57,94 +103,338 @@ export class ClaudeProvider implements LLMProvider {
     this.model = model;
   }
 
+  /**
+   * Set a listener that receives the usage of every completed response
+   */
+  setUsageListener(listener: UsageListener | null): void {
+    this.usageListener = listener;
+  }
+
   isConfigured(): boolean {
     return this.client !== null;
   }
 
+  /**
+   * Convert conversation messages to the Messages API format.
+   * System turns aren't allowed in the list, the system prompt carries them.
+   * Stable parts of messages (see Message.cacheBreakpoints) become separate
+   * text blocks marked for prompt caching.
+   */
+  private toClaudeMessages(messages: Message[]): Anthropic.MessageParam[] {
+    const conversation = messages.filter((message) => message.role !== 'system');
+
+    const breakpoints: Array<{ message: number; offset: number }> = [];
+    conversation.forEach((message, index) => {
+      const offsets = (message.cacheBreakpoints ?? [])
+        .filter((offset) => offset > 0 && offset <= message.content.length)
+        .sort((a, b) => a - b);
+      for (const offset of offsets) {
+        breakpoints.push({ message: index, offset });
+      }
+    });
+
+    // One breakpoint goes to the system prompt. If there are too many, keep the
+    // first (linked notes, shared by the most requests) and the latest ones
+    // (longest cached prefix).
+    const available = MAX_CACHE_BREAKPOINTS - 1;
+    const chosen =
+      breakpoints.length <= available
+        ? breakpoints
+        : [breakpoints[0], ...breakpoints.slice(breakpoints.length - (available - 1))];
+
+    return conversation.map((message, index) => {
+      const role = message.role as 'user' | 'assistant';
+      const offsets = chosen.filter((point) => point.message === index).map((point) => point.offset);
+      if (offsets.length === 0) {
+        return { role, content: message.content };
+      }
+
+      const blocks: Anthropic.TextBlockParam[] = [];
+      let start = 0;
+      for (const offset of offsets) {
+        const text = message.content.slice(start, offset);
+        // The API rejects whitespace-only text blocks
+        if (text.trim()) {
+          blocks.push({ type: 'text', text, cache_control: { type: 'ephemeral' } });
+          start = offset;
+        }
+      }
+      const tail = message.content.slice(start);
+      if (tail.trim() || blocks.length === 0) {
+        blocks.push({ type: 'text', text: tail });
+      }
+
+      return { role, content: blocks };
+    });
+  }
+
+  /**
+   * Sampling parameters to send. Claude rejects requests that set both
+   * temperature and top P, so top P is only sent without a temperature.
+   */
+  private toClaudeSampling(params: GenerationParams): { temperature?: number; top_p?: number } {
+    return params.temperature !== undefined ? { temperature: params.temperature } : { top_p: params.topP };
+  }
+
+  /**
+   * System prompt as a cached block, it is identical across requests for a mood
+   */
+  private toClaudeSystem(systemPrompt: string): Anthropic.TextBlockParam[] {
+    return [{ type: 'text', text: systemPrompt, cache_control: { type: 'ephemeral' } }];
+  }
+
+  /**
+   * Convert tool definitions to the Messages API format
+   */
+  private toClaudeTools(definitions: ToolDefinition[]): Anthropic.Tool[] {
+    return definitions.map((definition) => ({
+      name: definition.name,
+      description: definition.description,
+      input_schema: definition.parameters,
+    }));
+  }
+
+  /**
+   * Map SDK errors onto the shared error taxonomy
+   */
+  private classifyError(error: unknown): unknown {
+    if (error instanceof Anthropic.APIUserAbortError) {
+      return createAbortError();
+    }
+    if (error instanceof Anthropic.APIConnectionError) {
+      return createProviderError('network', this.name, CLAUDE_ERROR_HINTS);
+    }
+    if (error instanceof Anthropic.APIError && error.status !== undefined) {
+      return classifyHttpError(
+        this.name,
+        error.status,
+        error.message,
+        error.headers?.get('retry-after'),
+        CLAUDE_ERROR_HINTS
+      );
+    }
+    return classifyRequestError(this.name, error, CLAUDE_ERROR_HINTS);
+  }
+
+  /**
+   * Fetch the models available to this API key from the Models API.
+   * Results are cached until the key changes.
+   * @param refresh Ignore the cached list
+   * @returns The models, or null if the API couldn't be reached
+   */
+  async fetchModels(refresh: boolean = false): Promise<ClaudeModelInfo[] | null> {
+    const client = this.client;
+    if (!client) {
+      return null;
+    }
+    if (this.availableModels && !refresh) {
+      return this.availableModels;
+    }
+
+    try {
+      this.availableModels = await this.requestModels(client);
+      return this.availableModels;
+    } catch (error) {
+      console.error('Failed to fetch Claude models:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Page through the Models API
+   */
+  private async requestModels(client: Anthropic): Promise<ClaudeModelInfo[]> {
+    const models: ClaudeModelInfo[] = [];
+    let page = await client.models.list({ limit: 100 });
+    while (true) {
+      for (const model of page.data) {
+        models.push({ id: model.id, displayName: model.display_name || model.id });
+      }
+      if (!page.hasNextPage()) break;
+      page = await page.getNextPage();
+    }
+    return models;
+  }
+
+  /**
+   * Get models with display names, falling back to the built-in list offline
+   */
+  async listModelInfo(): Promise<ClaudeModelInfo[]> {
+    return (await this.fetchModels()) ?? CLAUDE_MODELS;
+  }
+
   async listModels(): Promise<string[]> {
-    // Claude models are predefined, not fetched from API
-    return CLAUDE_MODELS;
+    return (await this.listModelInfo()).map((model) => model.id);
   }
 
   async chat(
     systemPrompt: string,
-    userMessage: string,
+    messages: Message[],
     onStream: StreamCallback,
-    onComplete: CompleteCallback
+    onComplete: CompleteCallback,
+    options: RequestOptions = {}
   ): Promise<void> {
-    if (!this.client) {
-      throw new Error('Claude API not configured. Please add your API key in settings.');
+    const client = this.client;
+    if (!client) {
+      throw createProviderError('not-configured', this.name, CLAUDE_ERROR_HINTS);
     }
 
-    const startTime = Date.now();
-    this.stats.currentContextSize = userMessage.length;
+    const model = options.model || this.model;
+    const params = options.params ?? {};
+    const tools = options.tools;
+    this.stats.currentContextSize = getMessagesLength(messages);
+
+    const conversation = this.toClaudeMessages(messages);
+    let fullText = '';
 
     try {
-      const stream = this.client.messages.stream({
-        model: this.model,
-        max_tokens: 300,
-        system: systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: userMessage,
-          },
-        ],
-      });
+      // Each round either answers or asks for tools; the last round must answer
+      for (let round = 0; ; round++) {
+        const startTime = Date.now();
+        const finalRound = !tools || round >= tools.maxRounds;
+        // Text before this round, so a retry only has to check this round's output
+        const roundStart = fullText.length;
 
-      let fullText = '';
+        // A round that may still call tools is held back until it ends: text
+        // before a tool call ("Let me search your vault…") isn't the answer
+        const { finalMessage, roundText } = await withRetry(
+          async () => {
+            try {
+              const stream = client.messages.stream(
+                {
+                  model,
+                  max_tokens: params.maxTokens ?? 300,
+                  ...this.toClaudeSampling(params),
+                  stop_sequences: params.stopSequences?.length ? params.stopSequences : undefined,
+                  system: this.toClaudeSystem(systemPrompt),
+                  messages: conversation,
+                  // Tool results already in the conversation need the definitions, so keep them and forbid new calls
+                  tools: tools ? this.toClaudeTools(tools.definitions) : undefined,
+                  tool_choice: tools && finalRound ? { type: 'none' } : undefined,
+                },
+                { signal: options.signal }
+              );
 
-      stream.on('text', (text) => {
-        fullText += text;
-        onStream(text);
-      });
+              let text = '';
+              stream.on('text', (chunk) => {
+                text += chunk;
+                if (finalRound) {
+                  fullText += chunk;
+                  onStream(chunk);
+                }
+              });
 
-      const finalMessage = await stream.finalMessage();
+              return { finalMessage: await stream.finalMessage(), roundText: text };
+            } catch (error) {
+              throw this.classifyError(error);
+            }
+          },
+          // Once text has reached the editor a retry would duplicate it
+          { signal: options.signal, canRetry: () => fullText.length === roundStart }
+        );
 
-      // Update stats
-      this.stats.lastResponseTime = Date.now() - startTime;
-      if (finalMessage.usage) {
-        this.stats.tokensThisSession +=
-          finalMessage.usage.input_tokens + finalMessage.usage.output_tokens;
-        this.stats.tokensToday +=
-          finalMessage.usage.input_tokens + finalMessage.usage.output_tokens;
+        // Update stats, each round is a separate request
+        const usage: TokenUsage = {
+          inputTokens: finalMessage.usage?.input_tokens ?? 0,
+          outputTokens: finalMessage.usage?.output_tokens ?? 0,
+          cacheReadTokens: finalMessage.usage?.cache_read_input_tokens ?? 0,
+          cacheWriteTokens: finalMessage.usage?.cache_creation_input_tokens ?? 0,
+          durationMs: Date.now() - startTime,
+        };
+        recordUsage(this.stats, usage);
+        this.usageListener?.(model, usage);
+
+        if (!tools || finalRound || finalMessage.stop_reason !== 'tool_use') {
+          if (!finalRound && roundText) {
+            fullText += roundText;
+            onStream(roundText);
+          }
+          break;
+        }
+
+        conversation.push({ role: 'assistant', content: finalMessage.content });
+        const results: Anthropic.ToolResultBlockParam[] = [];
+        for (const block of finalMessage.content) {
+          if (block.type === 'tool_use') {
+            results.push({
+              type: 'tool_result',
+              tool_use_id: block.id,
+              content: await tools.execute({
+                name: block.name,
+                arguments: (block.input ?? {}) as Record<string, unknown>,
+              }),
+            });
+          }
+        }
+        conversation.push({ role: 'user', content: results });
       }
 
       onComplete(fullText);
     } catch (error) {
-      console.error('Claude API error:', error);
+      if (!isAbortError(error)) {
+        console.error('Claude API error:', error);
+      }
       throw error;
     }
   }
 
-  async generate(systemPrompt: string, userMessage: string): Promise<string | null> {
-    if (!this.client) {
-      throw new Error('Claude API not configured. Please add your API key in settings.');
+  async generate(
+    systemPrompt: string,
+    messages: Message[],
+    options: RequestOptions = {}
+  ): Promise<string | null> {
+    const client = this.client;
+    if (!client) {
+      throw createProviderError('not-configured', this.name, CLAUDE_ERROR_HINTS);
     }
 
+    const model = options.model || this.model;
+    const params = options.params ?? {};
+    const format = options.responseFormat;
     const startTime = Date.now();
-    this.stats.currentContextSize = userMessage.length;
+    this.stats.currentContextSize = getMessagesLength(messages);
 
     try {
-      const response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: 100,
-        system: systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: userMessage,
-          },
-        ],
-      });
+      const response = await withRetry(
+        async () => {
+          try {
+            return await client.messages.create(
+              {
+                model,
+                max_tokens: params.maxTokens ?? 100,
+                ...this.toClaudeSampling(params),
+                stop_sequences: params.stopSequences?.length ? params.stopSequences : undefined,
+                system: this.toClaudeSystem(systemPrompt),
+                messages: this.toClaudeMessages(messages),
+                // Structured responses come back as the input of a tool the model must call
+                tools: format
+                  ? [{ name: format.name, description: format.description, input_schema: format.schema }]
+                  : undefined,
+                tool_choice: format ? { type: 'tool', name: format.name } : undefined,
+              },
+              { signal: options.signal }
+            );
+          } catch (error) {
+            throw this.classifyError(error);
+          }
+        },
+        { signal: options.signal }
+      );
 
       // Update stats
-      this.stats.lastResponseTime = Date.now() - startTime;
-      if (response.usage) {
-        this.stats.tokensThisSession +=
-          response.usage.input_tokens + response.usage.output_tokens;
-        this.stats.tokensToday +=
-          response.usage.input_tokens + response.usage.output_tokens;
+      const usage: TokenUsage = {
+        inputTokens: response.usage?.input_tokens ?? 0,
+        outputTokens: response.usage?.output_tokens ?? 0,
+        cacheReadTokens: response.usage?.cache_read_input_tokens ?? 0,
+        cacheWriteTokens: response.usage?.cache_creation_input_tokens ?? 0,
+        durationMs: Date.now() - startTime,
+      };
+      recordUsage(this.stats, usage);
+      this.usageListener?.(model, usage);
+
+      if (format) {
+        const toolBlock = response.content.find((block) => block.type === 'tool_use');
+        return toolBlock && toolBlock.type === 'tool_use' ? JSON.stringify(toolBlock.input) : null;
       }
 
       // Extract text from response
@@ -155,32 +445,77 @@ export class ClaudeProvider implements LLMProvider {
 
       return textBlock.text.trim();
     } catch (error) {
-      console.error('Claude API error:', error);
+      if (!isAbortError(error)) {
+        console.error('Claude API error:', error);
+      }
       throw error;
     }
   }
 
-  async testConnection(): Promise<boolean> {
-    if (!this.client) {
-      return false;
+  async testConnection(): Promise<ConnectionDiagnostics> {
+    const diagnostics = createDiagnostics(this.name, 'https://api.anthropic.com', this.model);
+    setCheck(diagnostics, 'version', 'skip', `Not reported by the API (SDK ${VERSION})`);
+
+    const client = this.client;
+    if (!client) {
+      setCheck(diagnostics, 'auth', 'fail', CLAUDE_ERROR_HINTS['not-configured'] as string);
+      return diagnostics;
     }
 
+    // The Models API checks reachability and the key without spending tokens
+    const startTime = Date.now();
+    let models: ClaudeModelInfo[];
+    try {
+      models = await this.requestModels(client);
+      this.availableModels = models;
+    } catch (error) {
+      if (error instanceof Anthropic.APIConnectionError) {
+        setCheck(diagnostics, 'reachability', 'fail', CLAUDE_ERROR_HINTS.network as string);
+      } else if (
+        error instanceof Anthropic.AuthenticationError ||
+        error instanceof Anthropic.PermissionDeniedError
+      ) {
+        setCheck(diagnostics, 'reachability', 'pass', 'api.anthropic.com answered');
+        setCheck(diagnostics, 'auth', 'fail', CLAUDE_ERROR_HINTS.auth as string);
+      } else {
+        setCheck(diagnostics, 'reachability', 'fail', getErrorMessage(this.classifyError(error)));
+      }
+      return diagnostics;
+    }
+
+    setCheck(diagnostics, 'reachability', 'pass', 'api.anthropic.com answered');
+    setCheck(diagnostics, 'auth', 'pass', 'API key accepted');
+    setLatency(diagnostics, Date.now() - startTime);
+
+    const model = models.find((info) => info.id === this.model);
+    if (!model) {
+      setCheck(diagnostics, 'model', 'fail', `"${this.model}" isn't offered to this API key. Pick another model.`);
+      return diagnostics;
+    }
+    setCheck(diagnostics, 'model', 'pass', model.displayName);
+
     try {
-      await this.client.messages.create({
+      let chunks = 0;
+      const stream = client.messages.stream({
         model: this.model,
-        max_tokens: 10,
-        messages: [
-          {
-            role: 'user',
-            content: 'Hi',
-          },
-        ],
+        max_tokens: 5,
+        messages: [{ role: 'user', content: 'Hi' }],
+      });
+      stream.on('text', () => {
+        chunks++;
       });
-      return true;
+      await stream.finalMessage();
+      setCheck(
+        diagnostics,
+        'streaming',
+        chunks > 0 ? 'pass' : 'warn',
+        chunks > 0 ? `Received ${chunks} chunk${chunks === 1 ? '' : 's'}` : 'The stream finished without any text'
+      );
     } catch (error) {
-      console.error('Claude connection test failed:', error);
-      return false;
+      setCheck(diagnostics, 'streaming', 'fail', getErrorMessage(this.classifyError(error)));
     }
+
+    return diagnostics;
   }
 
   getStats(): DeveloperStats {
@@ -189,5 +524,9 @@ export class ClaudeProvider implements LLMProvider {
 
   resetSessionStats(): void {
     this.stats.tokensThisSession = 0;
+    this.stats.inputTokensThisSession = 0;
+    this.stats.outputTokensThisSession = 0;
+    this.stats.cacheReadTokensThisSession = 0;
+    this.stats.cacheWriteTokensThisSession = 0;
   }
 }
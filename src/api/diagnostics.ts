@@ -0,0 +1,121 @@
+/**
+ * Outcome of a single diagnostic check
+ */
+export type DiagnosticStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+/**
+ * The checks every connection report covers, in display order
+ */
+export type DiagnosticCheckId = 'reachability' | 'auth' | 'model' | 'latency' | 'streaming' | 'version';
+
+export const DIAGNOSTIC_LABELS: Record<DiagnosticCheckId, string> = {
+  reachability: 'Server reachable',
+  auth: 'Authentication',
+  model: 'Model available',
+  latency: 'Round-trip latency',
+  streaming: 'Streaming',
+  version: 'Server version',
+};
+
+/**
+ * Round trips slower than this are flagged
+ */
+const SLOW_LATENCY_MS = 3000;
+
+/**
+ * Result of one check
+ */
+export interface DiagnosticCheck {
+  id: DiagnosticCheckId;
+  status: DiagnosticStatus;
+  detail: string;
+}
+
+/**
+ * Connection report for a provider
+ */
+export interface ConnectionDiagnostics {
+  provider: string;
+  /** Where requests go, e.g. a base URL */
+  endpoint: string;
+  model: string;
+  checks: DiagnosticCheck[];
+}
+
+/**
+ * Start a report with every check not yet run
+ */
+export function createDiagnostics(provider: string, endpoint: string, model: string): ConnectionDiagnostics {
+  const ids = Object.keys(DIAGNOSTIC_LABELS) as DiagnosticCheckId[];
+  return {
+    provider,
+    endpoint,
+    model,
+    checks: ids.map((id) => ({ id, status: 'skip', detail: 'Not checked' })),
+  };
+}
+
+/**
+ * Record the outcome of a check
+ */
+export function setCheck(
+  diagnostics: ConnectionDiagnostics,
+  id: DiagnosticCheckId,
+  status: DiagnosticStatus,
+  detail: string
+): void {
+  const check = diagnostics.checks.find((c) => c.id === id);
+  if (check) {
+    check.status = status;
+    check.detail = detail;
+  }
+}
+
+/**
+ * Record a measured round trip, flagging slow ones
+ */
+export function setLatency(diagnostics: ConnectionDiagnostics, ms: number): void {
+  const rounded = Math.round(ms);
+  setCheck(
+    diagnostics,
+    'latency',
+    rounded > SLOW_LATENCY_MS ? 'warn' : 'pass',
+    rounded > SLOW_LATENCY_MS ? `${rounded} ms (slow)` : `${rounded} ms`
+  );
+}
+
+/**
+ * Whether requests should work: no check failed
+ */
+export function isHealthy(diagnostics: ConnectionDiagnostics): boolean {
+  return !diagnostics.checks.some((check) => check.status === 'fail');
+}
+
+/**
+ * Symbol shown for each status in the checklist and the text report
+ */
+export const DIAGNOSTIC_SYMBOLS: Record<DiagnosticStatus, string> = {
+  pass: '✓',
+  warn: '!',
+  fail: '✗',
+  skip: '–',
+};
+
+/**
+ * Format a report as plain text for bug reports
+ * @param environment Extra lines such as plugin and Obsidian versions
+ */
+export function formatDiagnosticsReport(diagnostics: ConnectionDiagnostics, environment: string[] = []): string {
+  const lines = [
+    'Enchanted Notes connection report',
+    `Provider: ${diagnostics.provider}`,
+    `Endpoint: ${diagnostics.endpoint || '(none)'}`,
+    `Model: ${diagnostics.model || '(none)'}`,
+    ...environment,
+    '',
+    ...diagnostics.checks.map(
+      (check) => `${DIAGNOSTIC_SYMBOLS[check.status]} ${DIAGNOSTIC_LABELS[check.id]}: ${check.detail}`
+    ),
+  ];
+  return lines.join('\n');
+}
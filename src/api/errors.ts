@@ -0,0 +1,302 @@
+import { isAbortError, sleep, throwIfAborted } from './provider';
+
+/**
+ * What went wrong with a provider call, in terms the user can act on
+ */
+export type ProviderErrorKind =
+  | 'not-configured'
+  | 'auth'
+  | 'rate-limited'
+  | 'overloaded'
+  | 'network'
+  | 'model-not-found'
+  | 'context-too-long'
+  | 'spending-cap'
+  | 'unknown';
+
+/**
+ * Kinds that usually go away on their own and are worth retrying
+ */
+const TRANSIENT_KINDS: ProviderErrorKind[] = ['rate-limited', 'overloaded', 'network'];
+
+/**
+ * A classified provider failure. The message is user-facing and says what to fix.
+ */
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: ProviderErrorKind,
+    provider: string,
+    message: string,
+    details: { status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.provider = provider;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  /** Whether retrying the same request later may succeed */
+  get isTransient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Provider-specific wording for error kinds, e.g. how to start a local server
+ */
+export type ErrorHints = Partial<Record<ProviderErrorKind, string>>;
+
+/**
+ * Default user-facing message for an error kind
+ */
+function defaultMessage(kind: ProviderErrorKind, provider: string): string {
+  switch (kind) {
+    case 'not-configured':
+      return `${provider} isn't configured yet. Finish its setup in Enchanted Notes settings.`;
+    case 'auth':
+      return `${provider} rejected the API key. Check the key in Enchanted Notes settings.`;
+    case 'rate-limited':
+      return `${provider} is rate limiting requests. Wait a moment and try again.`;
+    case 'overloaded':
+      return `${provider} is overloaded right now. Try again shortly.`;
+    case 'network':
+      return `Couldn't reach ${provider}. Check your connection.`;
+    case 'model-not-found':
+      return `${provider} doesn't have the selected model. Pick another model in settings.`;
+    case 'context-too-long':
+      return `This note is too long for the selected ${provider} model. Try turning off linked note context or using a model with a larger context window.`;
+    case 'spending-cap':
+      return 'Spending cap reached. Raise it in Enchanted Notes settings.';
+    case 'unknown':
+      return `${provider} request failed.`;
+  }
+}
+
+/**
+ * Create a ProviderError, preferring provider-specific wording when available
+ */
+export function createProviderError(
+  kind: ProviderErrorKind,
+  provider: string,
+  hints: ErrorHints = {},
+  details: { status?: number; retryAfterMs?: number; detail?: string } = {}
+): ProviderError {
+  let message = hints[kind] || defaultMessage(kind, provider);
+  if (kind === 'unknown' && details.detail) {
+    message += ` ${details.detail}`;
+  }
+  return new ProviderError(kind, provider, message, details);
+}
+
+/**
+ * Parse a retry-after header (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Look up a header case-insensitively in a plain header record
+ */
+export function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const lower = name.toLowerCase();
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === lower) {
+      return headers[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Error text that means the prompt didn't fit in the model's context
+ */
+const CONTEXT_TOO_LONG_PATTERN =
+  /context length|context size|context window|too long|too many tokens|maximum context/;
+
+/**
+ * Error text that means the requested model doesn't exist
+ */
+const MODEL_NOT_FOUND_PATTERN = /model_not_found|model .*not found|no such model/;
+
+/**
+ * Error text that means the server is busy rather than unable to handle the request
+ */
+const OVERLOADED_PATTERN = /overloaded|out of memory|unavailable/;
+
+/**
+ * Classify an HTTP error response
+ * @param body The response body, used to tell "model missing" and "prompt too long" apart
+ */
+export function classifyHttpError(
+  provider: string,
+  status: number,
+  body: string,
+  retryAfter: string | null | undefined,
+  hints: ErrorHints = {}
+): ProviderError {
+  const text = body.toLowerCase();
+  const retryAfterMs = parseRetryAfter(retryAfter);
+  let kind: ProviderErrorKind = 'unknown';
+
+  if (status === 413 || CONTEXT_TOO_LONG_PATTERN.test(text)) {
+    kind = 'context-too-long';
+  } else if (status === 401 || status === 403) {
+    kind = 'auth';
+  } else if (status === 429) {
+    kind = 'rate-limited';
+  } else if (
+    (status === 404 && /model/.test(text)) ||
+    MODEL_NOT_FOUND_PATTERN.test(text)
+  ) {
+    kind = 'model-not-found';
+  } else if (status === 529 || status === 503 || status === 502) {
+    kind = 'overloaded';
+  } else if (status === 500 && OVERLOADED_PATTERN.test(text)) {
+    // Other 500s are usually the request itself, which retrying won't fix
+    kind = 'overloaded';
+  }
+
+  return createProviderError(kind, provider, hints, {
+    status,
+    retryAfterMs,
+    detail: `(${status}${body ? `: ${body.slice(0, 200)}` : ''})`,
+  });
+}
+
+/**
+ * Classify an error reported inside a stream that had already started,
+ * where there is no HTTP status to go on
+ */
+export function classifyStreamError(
+  provider: string,
+  message: string,
+  hints: ErrorHints = {}
+): ProviderError {
+  const text = message.toLowerCase();
+  let kind: ProviderErrorKind = 'unknown';
+
+  if (CONTEXT_TOO_LONG_PATTERN.test(text)) {
+    kind = 'context-too-long';
+  } else if (MODEL_NOT_FOUND_PATTERN.test(text)) {
+    kind = 'model-not-found';
+  } else if (OVERLOADED_PATTERN.test(text)) {
+    kind = 'overloaded';
+  }
+
+  return createProviderError(kind, provider, hints, { detail: `(${message.slice(0, 200)})` });
+}
+
+/**
+ * Classify an error thrown before any response arrived (fetch/requestUrl failures).
+ * Abort errors are passed through unchanged so callers can tell them apart.
+ */
+export function classifyRequestError(
+  provider: string,
+  error: unknown,
+  hints: ErrorHints = {}
+): unknown {
+  if (error instanceof ProviderError || isAbortError(error)) {
+    return error;
+  }
+
+  // fetch rejects with a TypeError and requestUrl with a net:: error when the host can't be reached
+  const message = error instanceof Error ? error.message : String(error);
+  if (
+    error instanceof TypeError ||
+    /net::|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|Failed to fetch|NetworkError/i.test(message)
+  ) {
+    return createProviderError('network', provider, hints);
+  }
+
+  return createProviderError('unknown', provider, hints, { detail: message });
+}
+
+/**
+ * Get the user-facing message for any error
+ */
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof ProviderError) {
+    return error.message;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Retry options
+ */
+export interface RetryOptions {
+  signal?: AbortSignal;
+  /** Retries after the first attempt */
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Extra veto, e.g. once a stream has started producing text */
+  canRetry?: (error: ProviderError) => boolean;
+}
+
+/**
+ * Run an operation, retrying transient ProviderErrors with jittered
+ * exponential backoff. A server-provided retry-after wins over the backoff,
+ * but if it asks for longer than maxDelayMs the error is surfaced instead.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const maxRetries = options.maxRetries ?? 2;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 20000;
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(options.signal);
+
+    try {
+      return await operation();
+    } catch (error) {
+      if (
+        !(error instanceof ProviderError) ||
+        !error.isTransient ||
+        attempt >= maxRetries ||
+        (options.canRetry && !options.canRetry(error))
+      ) {
+        throw error;
+      }
+
+      // Full jitter: anywhere between 0 and the exponential ceiling
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+      const delay = error.retryAfterMs !== undefined ? error.retryAfterMs : backoff;
+      if (delay > maxDelayMs) {
+        throw error;
+      }
+
+      console.warn(`${error.provider} ${error.kind}, retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, options.signal);
+    }
+  }
+}
@@ -0,0 +1,280 @@
+import { DeveloperStats, ProviderType } from '../types';
+import {
+  LLMProvider,
+  Message,
+  RequestOptions,
+  StreamCallback,
+  CompleteCallback,
+  throwIfAborted,
+} from './provider';
+import { ProviderError, createProviderError } from './errors';
+import { createEmptyStats } from './stats';
+import { ConnectionDiagnostics, createDiagnostics, setCheck } from './diagnostics';
+import { RequestPriority, RequestScheduler } from './scheduler';
+import { ResponseCache } from './cache';
+
+/**
+ * One backend in a fallback chain, optionally pinned to a model
+ */
+export interface ProviderChainEntry {
+  type: ProviderType;
+  provider: LLMProvider;
+  /** Model to request from this backend instead of its configured one */
+  model?: string;
+}
+
+/**
+ * Checked before each request; returning an error blocks the request
+ */
+export type RequestGuard = () => ProviderError | null;
+
+/**
+ * Provider that tries an ordered list of backends, moving on to the next one
+ * when a backend is unreachable or unavailable (network, overloaded or
+ * rate-limited after retries). Other errors, such as a bad API key, are the
+ * user's to fix and are surfaced straight away.
+ */
+export class FallbackProvider implements LLMProvider {
+  private entries: ProviderChainEntry[];
+  private lastAnswered: ProviderChainEntry | null = null;
+  private onAnswered: ((entry: ProviderChainEntry) => void) | null;
+  private guard: RequestGuard | null;
+  private scheduler: RequestScheduler | null;
+  private cache: ResponseCache | null;
+
+  /**
+   * @param entries Backends to try, primary first
+   * @param onAnswered Called with the backend that answered each request
+   * @param guard Checked before each request, e.g. for spending caps
+   * @param scheduler Queues requests so each backend stays within its concurrency limit
+   * @param cache Answers repeated requests without calling a backend
+   */
+  constructor(
+    entries: ProviderChainEntry[],
+    onAnswered: ((entry: ProviderChainEntry) => void) | null = null,
+    guard: RequestGuard | null = null,
+    scheduler: RequestScheduler | null = null,
+    cache: ResponseCache | null = null
+  ) {
+    this.entries = entries;
+    this.onAnswered = onAnswered;
+    this.guard = guard;
+    this.scheduler = scheduler;
+    this.cache = cache;
+  }
+
+  /**
+   * Provider display name - the backend that answered last, or the primary
+   */
+  get name(): string {
+    return (this.lastAnswered ?? this.entries[0])?.provider.name ?? 'None';
+  }
+
+  /**
+   * Get the backend that answered the most recent request, if any
+   */
+  getLastAnswered(): ProviderChainEntry | null {
+    return this.lastAnswered;
+  }
+
+  /**
+   * Get the primary backend
+   */
+  getPrimary(): LLMProvider | null {
+    return this.entries[0]?.provider ?? null;
+  }
+
+  isConfigured(): boolean {
+    return this.entries.some((entry) => entry.provider.isConfigured());
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.getPrimary()?.listModels() ?? [];
+  }
+
+  /**
+   * Run a request against each configured backend in order until one
+   * answers, from the response cache if it has the answer
+   * @param getCacheKey Cache key for a request to a backend, or null not to cache it
+   */
+  private async runWithFallback(
+    request: (entry: ProviderChainEntry) => Promise<string | null>,
+    canFallBack: () => boolean,
+    options: RequestOptions,
+    getCacheKey: (entry: ProviderChainEntry) => string | null
+  ): Promise<{ response: string | null; fromCache: boolean }> {
+    const { signal, priority = 'pause', notePath } = options;
+
+    const candidates = this.entries.filter((entry) => entry.provider.isConfigured());
+    if (candidates.length === 0) {
+      const primary = this.getPrimary();
+      throw createProviderError('not-configured', primary?.name ?? 'Provider');
+    }
+
+    const blocked = this.guard?.();
+    if (blocked) {
+      throw blocked;
+    }
+
+    let lastError: unknown = null;
+
+    for (let i = 0; i < candidates.length; i++) {
+      const entry = candidates[i];
+      throwIfAborted(signal);
+
+      const cacheKey = getCacheKey(entry);
+      const cached = cacheKey && this.cache ? await this.cache.get(cacheKey) : null;
+      if (cached !== null) {
+        this.setAnswered(entry);
+        return { response: cached, fromCache: true };
+      }
+
+      try {
+        const response = await this.runScheduled(entry, priority, signal, notePath, () =>
+          request(entry)
+        );
+        this.setAnswered(entry);
+        if (cacheKey && response && this.cache) {
+          await this.cache.set(cacheKey, response);
+        }
+        return { response, fromCache: false };
+      } catch (error) {
+        lastError = error;
+
+        const hasNext = i < candidates.length - 1;
+        if (!(error instanceof ProviderError) || !error.isTransient || !hasNext || !canFallBack()) {
+          throw error;
+        }
+
+        console.warn(
+          `${entry.provider.name} unavailable (${error.kind}), falling back to ${candidates[i + 1].provider.name}`
+        );
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Remember the backend that answered
+   */
+  private setAnswered(entry: ProviderChainEntry): void {
+    this.lastAnswered = entry;
+    this.onAnswered?.(entry);
+  }
+
+  /**
+   * Get the response cache key for a request to a backend
+   * @returns The key, or null if the response shouldn't be cached
+   */
+  private getCacheKey(
+    kind: 'chat' | 'generate',
+    entry: ProviderChainEntry,
+    systemPrompt: string,
+    messages: Message[],
+    options: RequestOptions
+  ): string | null {
+    // Tool calls read the vault as it is now, and recordings must reach the real backend
+    if (!this.cache?.isEnabled() || options.tools || entry.type === 'mock') {
+      return null;
+    }
+    return this.cache.getKey(kind, entry.type, entry.model, systemPrompt, messages, options);
+  }
+
+  /**
+   * Run a request once its backend has a free slot
+   */
+  private async runScheduled<T>(
+    entry: ProviderChainEntry,
+    priority: RequestPriority,
+    signal: AbortSignal | undefined,
+    notePath: string | undefined,
+    request: () => Promise<T>
+  ): Promise<T> {
+    if (!this.scheduler) {
+      return request();
+    }
+
+    const release = await this.scheduler.acquire(entry.type, priority, signal, notePath);
+    try {
+      return await request();
+    } finally {
+      release();
+    }
+  }
+
+  async chat(
+    systemPrompt: string,
+    messages: Message[],
+    onStream: StreamCallback,
+    onComplete: CompleteCallback,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    let streamed = false;
+
+    const { response, fromCache } = await this.runWithFallback(
+      async (entry) => {
+        let fullText: string | null = null;
+        await entry.provider.chat(
+          systemPrompt,
+          messages,
+          (text) => {
+            streamed = true;
+            onStream(text);
+          },
+          (text) => {
+            fullText = text;
+            onComplete(text);
+          },
+          { ...options, model: entry.model }
+        );
+        return fullText;
+      },
+      // A half-streamed answer can't be continued by another backend
+      () => !streamed,
+      options,
+      (entry) => this.getCacheKey('chat', entry, systemPrompt, messages, options)
+    );
+
+    // A cached answer arrives all at once
+    if (fromCache && response !== null) {
+      onStream(response);
+      onComplete(response);
+    }
+  }
+
+  async generate(
+    systemPrompt: string,
+    messages: Message[],
+    options: RequestOptions = {}
+  ): Promise<string | null> {
+    const { response } = await this.runWithFallback(
+      (entry) => entry.provider.generate(systemPrompt, messages, { ...options, model: entry.model }),
+      () => true,
+      options,
+      (entry) => this.getCacheKey('generate', entry, systemPrompt, messages, options)
+    );
+    return response;
+  }
+
+  async testConnection(): Promise<ConnectionDiagnostics> {
+    const primary = this.getPrimary();
+    if (primary) {
+      return primary.testConnection();
+    }
+    const diagnostics = createDiagnostics('None', '', '');
+    setCheck(diagnostics, 'reachability', 'fail', 'No provider is configured.');
+    return diagnostics;
+  }
+
+  getStats(): DeveloperStats {
+    const provider = this.lastAnswered?.provider ?? this.getPrimary();
+    return provider ? provider.getStats() : createEmptyStats();
+  }
+
+  resetSessionStats(): void {
+    for (const entry of this.entries) {
+      entry.provider.resetSessionStats();
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { EnchantedNotesSettings, ModelPrice, ProviderType, UsageRow } from '../types';
+import { TokenUsage } from './stats';
+import { ProviderError } from './errors';
+
+/**
+ * Published prices for the built-in Claude models (USD per million tokens).
+ * Models without a price, such as local ones, are counted as free.
+ */
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'claude-sonnet-4-20250514', inputPerMillion: 3, outputPerMillion: 15 },
+  { model: 'claude-opus-4-20250514', inputPerMillion: 15, outputPerMillion: 75 },
+  { model: 'claude-3-5-sonnet-20241022', inputPerMillion: 3, outputPerMillion: 15 },
+  { model: 'claude-3-5-haiku-20241022', inputPerMillion: 0.8, outputPerMillion: 4 },
+];
+
+/**
+ * Prompt cache pricing relative to normal input tokens (Anthropic's 5-minute cache)
+ */
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+
+/**
+ * How many days of history to keep
+ */
+const RETENTION_DAYS = 400;
+
+/**
+ * Usage totals over a period
+ */
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+/**
+ * Get the ledger key for a date (YYYY-MM-DD, local time)
+ */
+export function toDateKey(date: Date = new Date()): string {
+  const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Format an estimated cost for display
+ */
+export function formatCost(cost: number): string {
+  return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/**
+ * Persistent record of token usage and estimated cost, one row per day,
+ * provider and model. Rows are stored in plugin data so totals survive
+ * reloads and roll over at local midnight.
+ */
+export class UsageLedger {
+  private rows: UsageRow[];
+  private getUserPrices: () => ModelPrice[];
+
+  /**
+   * @param rows Previously saved rows
+   * @param getUserPrices Prices from settings, checked before the built-in ones
+   */
+  constructor(rows: UsageRow[], getUserPrices: () => ModelPrice[]) {
+    this.rows = rows;
+    this.getUserPrices = getUserPrices;
+    this.prune();
+  }
+
+  /**
+   * Look up the price of a model, if known
+   */
+  getPrice(model: string): ModelPrice | null {
+    return (
+      this.getUserPrices().find((price) => price.model === model) ??
+      DEFAULT_MODEL_PRICES.find((price) => price.model === model) ??
+      null
+    );
+  }
+
+  /**
+   * Estimate the cost of a response in USD
+   */
+  estimateCost(model: string, usage: TokenUsage): number {
+    const price = this.getPrice(model);
+    if (!price) {
+      return 0;
+    }
+    const inputTokens =
+      usage.inputTokens +
+      (usage.cacheWriteTokens ?? 0) * CACHE_WRITE_MULTIPLIER +
+      (usage.cacheReadTokens ?? 0) * CACHE_READ_MULTIPLIER;
+    return (
+      (inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1000000
+    );
+  }
+
+  /**
+   * Add a response's usage to today's row for its provider and model
+   */
+  record(provider: ProviderType, model: string, usage: TokenUsage): void {
+    const date = toDateKey();
+    let row = this.rows.find(
+      (r) => r.date === date && r.provider === provider && r.model === model
+    );
+    if (!row) {
+      row = { date, provider, model, requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+      this.rows.push(row);
+    }
+
+    row.requests += 1;
+    row.inputTokens += usage.inputTokens + (usage.cacheReadTokens ?? 0) + (usage.cacheWriteTokens ?? 0);
+    row.outputTokens += usage.outputTokens;
+    // Cost is fixed when recorded so later price edits don't rewrite history
+    row.cost += this.estimateCost(model, usage);
+  }
+
+  /**
+   * Get rows whose date starts with a prefix, e.g. a day (YYYY-MM-DD) or month (YYYY-MM)
+   */
+  getRows(datePrefix: string): UsageRow[] {
+    return this.rows.filter((row) => row.date.startsWith(datePrefix));
+  }
+
+  /**
+   * Sum the rows whose date starts with a prefix
+   */
+  getTotals(datePrefix: string): UsageTotals {
+    const totals: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    for (const row of this.getRows(datePrefix)) {
+      totals.requests += row.requests;
+      totals.inputTokens += row.inputTokens;
+      totals.outputTokens += row.outputTokens;
+      totals.cost += row.cost;
+    }
+    return totals;
+  }
+
+  /**
+   * Totals for today
+   */
+  getToday(): UsageTotals {
+    return this.getTotals(toDateKey());
+  }
+
+  /**
+   * Totals for the current calendar month
+   */
+  getThisMonth(): UsageTotals {
+    return this.getTotals(toDateKey().slice(0, 7));
+  }
+
+  /**
+   * Check the spending caps
+   * @returns A user-facing message if a cap has been reached, otherwise null
+   */
+  getCapMessage(settings: EnchantedNotesSettings): string | null {
+    if (settings.dailySpendingCap > 0) {
+      const today = this.getToday().cost;
+      if (today >= settings.dailySpendingCap) {
+        return `Daily spending cap of ${formatCost(settings.dailySpendingCap)} reached (${formatCost(today)} today). Muse and Whisper are paused until tomorrow, or raise the cap in Enchanted Notes settings.`;
+      }
+    }
+
+    if (settings.monthlySpendingCap > 0) {
+      const month = this.getThisMonth().cost;
+      if (month >= settings.monthlySpendingCap) {
+        return `Monthly spending cap of ${formatCost(settings.monthlySpendingCap)} reached (${formatCost(month)} this month). Muse and Whisper are paused until next month, or raise the cap in Enchanted Notes settings.`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check the spending caps as a request guard
+   * @returns An error that blocks the request if a cap has been reached
+   */
+  checkCaps(settings: EnchantedNotesSettings): ProviderError | null {
+    const message = this.getCapMessage(settings);
+    return message ? new ProviderError('spending-cap', 'Enchanted Notes', message) : null;
+  }
+
+  /**
+   * Remove all history
+   */
+  clear(): void {
+    this.rows = [];
+  }
+
+  /**
+   * Drop rows older than the retention window
+   */
+  private prune(): void {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - RETENTION_DAYS);
+    const cutoffKey = toDateKey(cutoff);
+    this.rows = this.rows.filter((row) => row.date >= cutoffKey);
+  }
+
+  /**
+   * Rows to persist in plugin data
+   */
+  toJSON(): UsageRow[] {
+    return this.rows;
+  }
+}
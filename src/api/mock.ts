@@ -0,0 +1,351 @@
+import { DeveloperStats, MockSimulatedError } from '../types';
+import {
+  LLMProvider,
+  Message,
+  RequestOptions,
+  StreamCallback,
+  CompleteCallback,
+  getMessagesLength,
+  sleep,
+  throwIfAborted,
+} from './provider';
+import { ProviderErrorKind, createProviderError, getErrorMessage } from './errors';
+import { ConnectionDiagnostics, createDiagnostics, setCheck, setLatency } from './diagnostics';
+import { createEmptyStats, estimateTokens, recordUsage } from './stats';
+import { hashString } from '../utils/hash';
+
+/**
+ * A recorded response
+ */
+export interface MockFixtureEntry {
+  kind: 'chat' | 'generate';
+  /** The complete response text (null for a generate call that returned nothing) */
+  response: string | null;
+  /** Streamed chunks as recorded, replayed in order */
+  chunks?: string[];
+  /** Delay between replayed chunks, overriding the setting */
+  chunkDelayMs?: number;
+  /** Fail with this error instead of answering */
+  error?: ProviderErrorKind;
+  /** Start of the last user message, to make fixture files easier to read */
+  preview?: string;
+}
+
+/**
+ * Contents of a fixture file: recorded responses keyed by prompt hash
+ */
+export interface MockFixture {
+  version: 1;
+  entries: Record<string, MockFixtureEntry>;
+}
+
+/**
+ * Where the mock provider loads and saves its fixtures
+ */
+export interface MockFixtureStore {
+  load(): Promise<MockFixture>;
+  save(fixture: MockFixture): Promise<void>;
+}
+
+/**
+ * Mock provider settings
+ */
+export interface MockProviderOptions {
+  mode: 'replay' | 'record';
+  /** Delay between streamed chunks when replaying */
+  chunkDelayMs: number;
+  /** Fail every request with this error, for testing error handling */
+  simulatedError: MockSimulatedError;
+  /** The real backend to record from */
+  getRecordProvider: () => LLMProvider | null;
+}
+
+/**
+ * Create an empty fixture
+ */
+export function createEmptyFixture(): MockFixture {
+  return { version: 1, entries: {} };
+}
+
+/**
+ * Key a request by its kind, system prompt and conversation. Models and
+ * generation parameters are left out so a recording replays on any setup.
+ */
+export function hashPrompt(
+  kind: MockFixtureEntry['kind'],
+  systemPrompt: string,
+  messages: Message[]
+): string {
+  return hashString(
+    JSON.stringify({
+      kind,
+      systemPrompt,
+      messages: messages.map((message) => ({ role: message.role, content: message.content })),
+    })
+  );
+}
+
+/**
+ * Deterministic provider for offline development, demos and bug reports.
+ * In replay mode it answers from recorded transcripts, streaming them with
+ * simulated timing. In record mode it passes requests through to a real
+ * provider and saves what came back to the fixture file.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'Mock';
+  private store: MockFixtureStore;
+  private options: MockProviderOptions;
+  private fixture: MockFixture | null = null;
+  private stats: DeveloperStats = createEmptyStats();
+
+  constructor(store: MockFixtureStore, options: MockProviderOptions) {
+    this.store = store;
+    this.options = options;
+  }
+
+  /**
+   * Update settings
+   */
+  setOptions(options: MockProviderOptions): void {
+    this.options = options;
+  }
+
+  /**
+   * Forget the loaded fixture so the next request reads the file again
+   */
+  reloadFixture(): void {
+    this.fixture = null;
+  }
+
+  isConfigured(): boolean {
+    return this.options.mode === 'replay' || this.options.getRecordProvider()?.isConfigured() === true;
+  }
+
+  async listModels(): Promise<string[]> {
+    return ['mock'];
+  }
+
+  /**
+   * Load the fixture file once
+   */
+  private async getFixture(): Promise<MockFixture> {
+    if (!this.fixture) {
+      this.fixture = await this.store.load();
+    }
+    return this.fixture;
+  }
+
+  /**
+   * Find the recorded entry for a request
+   */
+  private async findEntry(
+    kind: MockFixtureEntry['kind'],
+    systemPrompt: string,
+    messages: Message[]
+  ): Promise<MockFixtureEntry> {
+    const hash = hashPrompt(kind, systemPrompt, messages);
+    const entry = (await this.getFixture()).entries[hash];
+    if (!entry) {
+      throw createProviderError('unknown', this.name, {}, {
+        detail: `No recorded ${kind} response for this prompt (hash ${hash}). Record one first.`,
+      });
+    }
+    return entry;
+  }
+
+  /**
+   * Save a recorded entry to the fixture file
+   */
+  private async saveEntry(
+    systemPrompt: string,
+    messages: Message[],
+    entry: MockFixtureEntry
+  ): Promise<void> {
+    const fixture = await this.getFixture();
+    const lastMessage = messages[messages.length - 1];
+    fixture.entries[hashPrompt(entry.kind, systemPrompt, messages)] = {
+      ...entry,
+      preview: lastMessage?.content.slice(-120),
+    };
+
+    // A failed write shouldn't lose the response the user is waiting for
+    try {
+      await this.store.save(fixture);
+    } catch (error) {
+      console.error('Failed to save mock fixture:', error);
+    }
+  }
+
+  /**
+   * Throw the configured or recorded error, if any
+   */
+  private throwSimulatedError(kind: ProviderErrorKind | undefined): void {
+    if (kind) {
+      throw createProviderError(kind, this.name, {}, { detail: '(simulated)' });
+    }
+  }
+
+  /**
+   * Get the real provider to record from
+   */
+  private getRecordProvider(): LLMProvider {
+    const provider = this.options.getRecordProvider();
+    if (!provider || !provider.isConfigured()) {
+      throw createProviderError('not-configured', this.name, {
+        'not-configured': 'Configure the provider to record from in Enchanted Notes settings.',
+      });
+    }
+    return provider;
+  }
+
+  /**
+   * Record stats for a replayed response
+   */
+  private recordStats(messages: Message[], response: string | null, startTime: number): void {
+    recordUsage(this.stats, {
+      inputTokens: estimateTokens(getMessagesLength(messages)),
+      outputTokens: estimateTokens(response?.length ?? 0),
+      durationMs: Date.now() - startTime,
+    });
+  }
+
+  async chat(
+    systemPrompt: string,
+    messages: Message[],
+    onStream: StreamCallback,
+    onComplete: CompleteCallback,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    this.stats.currentContextSize = getMessagesLength(messages);
+
+    if (this.options.mode === 'record') {
+      const recordStart = Date.now();
+      const recorded = { chunks: [] as string[], fullText: null as string | null };
+
+      await this.getRecordProvider().chat(
+        systemPrompt,
+        messages,
+        (text) => {
+          recorded.chunks.push(text);
+          onStream(text);
+        },
+        (fullText) => {
+          recorded.fullText = fullText;
+        },
+        options
+      );
+
+      if (recorded.fullText !== null) {
+        // Replay at the speed it was recorded
+        const chunkDelayMs = Math.round((Date.now() - recordStart) / Math.max(1, recorded.chunks.length));
+        await this.saveEntry(systemPrompt, messages, {
+          kind: 'chat',
+          response: recorded.fullText,
+          chunks: recorded.chunks,
+          chunkDelayMs,
+        });
+        onComplete(recorded.fullText);
+      }
+      return;
+    }
+
+    const startTime = Date.now();
+    this.throwSimulatedError(this.options.simulatedError === 'none' ? undefined : this.options.simulatedError);
+    const entry = await this.findEntry('chat', systemPrompt, messages);
+    this.throwSimulatedError(entry.error);
+
+    const response = entry.response ?? '';
+    // Without recorded chunks, stream word by word
+    const chunks = entry.chunks?.length ? entry.chunks : response.match(/\S+\s*|\s+/g) ?? [];
+    const chunkDelayMs = entry.chunkDelayMs ?? this.options.chunkDelayMs;
+
+    for (const chunk of chunks) {
+      await sleep(chunkDelayMs, options.signal);
+      onStream(chunk);
+    }
+    throwIfAborted(options.signal);
+
+    this.recordStats(messages, response, startTime);
+    onComplete(response);
+  }
+
+  async generate(
+    systemPrompt: string,
+    messages: Message[],
+    options: RequestOptions = {}
+  ): Promise<string | null> {
+    this.stats.currentContextSize = getMessagesLength(messages);
+
+    if (this.options.mode === 'record') {
+      const response = await this.getRecordProvider().generate(systemPrompt, messages, options);
+      await this.saveEntry(systemPrompt, messages, { kind: 'generate', response });
+      return response;
+    }
+
+    const startTime = Date.now();
+    this.throwSimulatedError(this.options.simulatedError === 'none' ? undefined : this.options.simulatedError);
+    const entry = await this.findEntry('generate', systemPrompt, messages);
+    this.throwSimulatedError(entry.error);
+
+    await sleep(entry.chunkDelayMs ?? this.options.chunkDelayMs, options.signal);
+
+    this.recordStats(messages, entry.response, startTime);
+    return entry.response;
+  }
+
+  async testConnection(): Promise<ConnectionDiagnostics> {
+    if (this.options.mode === 'record') {
+      const provider = this.options.getRecordProvider();
+      if (!provider) {
+        const diagnostics = createDiagnostics(this.name, '', '');
+        setCheck(diagnostics, 'reachability', 'fail', 'Choose a provider to record from.');
+        return diagnostics;
+      }
+      const diagnostics = await provider.testConnection();
+      return { ...diagnostics, provider: `${this.name} (recording from ${diagnostics.provider})` };
+    }
+
+    const diagnostics = createDiagnostics(this.name, 'Fixture file', 'mock');
+    setCheck(diagnostics, 'auth', 'skip', 'Not needed when replaying');
+    setCheck(diagnostics, 'version', 'skip', 'Not applicable');
+
+    const startTime = Date.now();
+    try {
+      this.reloadFixture();
+      const fixture = await this.getFixture();
+      const count = Object.keys(fixture.entries).length;
+      setCheck(diagnostics, 'reachability', 'pass', 'Fixture file loaded');
+      setCheck(
+        diagnostics,
+        'model',
+        count > 0 ? 'pass' : 'warn',
+        count > 0 ? `${count} recorded response${count === 1 ? '' : 's'}` : 'Nothing recorded yet. Record a session first.'
+      );
+    } catch (error) {
+      console.error('Mock fixture could not be loaded:', error);
+      setCheck(diagnostics, 'reachability', 'fail', `The fixture file couldn't be loaded: ${getErrorMessage(error)}`);
+      return diagnostics;
+    }
+    setLatency(diagnostics, Date.now() - startTime);
+
+    if (this.options.simulatedError !== 'none') {
+      setCheck(diagnostics, 'streaming', 'warn', `Every request fails with a simulated ${this.options.simulatedError} error`);
+    } else {
+      setCheck(diagnostics, 'streaming', 'pass', `Replayed with ${this.options.chunkDelayMs} ms between chunks`);
+    }
+
+    return diagnostics;
+  }
+
+  getStats(): DeveloperStats {
+    return { ...this.stats };
+  }
+
+  resetSessionStats(): void {
+    this.stats.tokensThisSession = 0;
+    this.stats.inputTokensThisSession = 0;
+    this.stats.outputTokensThisSession = 0;
+    this.stats.cacheReadTokensThisSession = 0;
+    this.stats.cacheWriteTokensThisSession = 0;
+  }
+}
@@ -1,6 +1,34 @@
 import { requestUrl } from 'obsidian';
-import { DeveloperStats } from '../types';
-import { LLMProvider, StreamCallback, CompleteCallback } from './provider';
+import { DeveloperStats, GenerationParams } from '../types';
+import {
+  LLMProvider,
+  Message,
+  RequestOptions,
+  StreamCallback,
+  CompleteCallback,
+  ToolDefinition,
+  getMessagesLength,
+  isAbortError,
+  raceAbort,
+} from './provider';
+import {
+  ErrorHints,
+  classifyHttpError,
+  classifyRequestError,
+  classifyStreamError,
+  createProviderError,
+  getErrorMessage,
+  getHeader,
+  withRetry,
+} from './errors';
+import { ConnectionDiagnostics, createDiagnostics, setCheck, setLatency } from './diagnostics';
+import { readNdjson } from './streaming';
+import { TokenUsage, UsageListener, createEmptyStats, estimateTokens, recordUsage } from './stats';
+
+/**
+ * Ollama's error for models without function calling (e.g. "llama2 does not support tools")
+ */
+const TOOLS_UNSUPPORTED_PATTERN = /does not support tools/i;
 
 /**
  * Ollama API response types
@@ -15,8 +43,18 @@ interface OllamaTagsResponse {
 }
 
 interface OllamaChatMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  tool_calls?: OllamaToolCall[];
+  // Name of the tool a 'tool' message answers
+  tool_name?: string;
+}
+
+interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
 }
 
 interface OllamaChatResponse {
@@ -25,8 +63,59 @@ interface OllamaChatResponse {
   message: {
     role: string;
     content: string;
+    tool_calls?: OllamaToolCall[];
   };
   done: boolean;
+  // Set instead of a message when generation fails mid-stream
+  error?: string;
+  // Only present on the final (done) response; durations are in nanoseconds
+  prompt_eval_count?: number;
+  eval_count?: number;
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_duration?: number;
+  eval_duration?: number;
+}
+
+interface OllamaShowResponse {
+  parameters?: string;
+  details?: {
+    family?: string;
+    format?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+  model_info?: Record<string, unknown>;
+}
+
+interface OllamaPullResponse {
+  status?: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+  error?: string;
+}
+
+/**
+ * Details of an installed model, from /api/show
+ */
+export interface OllamaModelDetails {
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+  /** Maximum context the model supports, in tokens */
+  contextLength?: number;
+}
+
+/**
+ * Progress of a model download
+ */
+export interface OllamaPullProgress {
+  status: string;
+  /** Bytes downloaded of the current layer, when known */
+  completed?: number;
+  /** Size of the current layer in bytes, when known */
+  total?: number;
 }
 
 /**
@@ -36,12 +125,9 @@ export class OllamaProvider implements LLMProvider {
   readonly name = 'Ollama';
   private baseUrl: string;
   private model: string;
-  private stats: DeveloperStats = {
-    tokensThisSession: 0,
-    tokensToday: 0,
-    lastResponseTime: 0,
-    currentContextSize: 0,
-  };
+  private keepAlive: string = '5m';
+  private stats: DeveloperStats = createEmptyStats();
+  private usageListener: UsageListener | null = null;
 
   constructor(baseUrl: string = 'http://localhost:11434', model: string = '') {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
@@ -62,6 +148,29 @@ export class OllamaProvider implements LLMProvider {
     this.model = model;
   }
 
+  /**
+   * Update how long the model stays loaded after a request
+   * @param keepAlive A duration such as "5m", or "-1" to keep it loaded
+   */
+  setKeepAlive(keepAlive: string): void {
+    this.keepAlive = keepAlive;
+  }
+
+  /**
+   * keep_alive value for request bodies. Ollama parses strings as Go durations,
+   * which need a unit, so plain numbers (like -1) are sent as numbers.
+   */
+  private getKeepAlive(): string | number {
+    return /^-?\d+$/.test(this.keepAlive) ? Number(this.keepAlive) : this.keepAlive;
+  }
+
+  /**
+   * Set a listener that receives the usage of every completed response
+   */
+  setUsageListener(listener: UsageListener | null): void {
+    this.usageListener = listener;
+  }
+
   /**
    * Get current model
    */
@@ -73,6 +182,19 @@ export class OllamaProvider implements LLMProvider {
     return this.baseUrl.length > 0 && this.model.length > 0;
   }
 
+  /**
+   * User-facing wording for Ollama failures
+   */
+  private getErrorHints(model: string = this.model): ErrorHints {
+    return {
+      'not-configured': 'Select an Ollama model in Enchanted Notes settings.',
+      network: `Ollama isn't running at ${this.baseUrl}. Start it with \`ollama serve\` or open the Ollama app.`,
+      'model-not-found': `Ollama doesn't have the model "${model}". Run \`ollama pull ${model}\` or pick another model in settings.`,
+      'context-too-long': `This note is too long for "${model}". Turn off linked note context or raise the model's context length.`,
+      overloaded: 'Ollama is busy or ran out of memory loading the model. Try again, or use a smaller model.',
+    };
+  }
+
   async listModels(): Promise<string[]> {
     try {
       const response = await requestUrl({
@@ -90,134 +212,491 @@ export class OllamaProvider implements LLMProvider {
 
   async chat(
     systemPrompt: string,
-    userMessage: string,
+    messages: Message[],
     onStream: StreamCallback,
-    onComplete: CompleteCallback
+    onComplete: CompleteCallback,
+    options: RequestOptions = {}
   ): Promise<void> {
     if (!this.isConfigured()) {
-      throw new Error('Ollama not configured. Please select a model in settings.');
+      throw createProviderError('not-configured', this.name, this.getErrorHints());
     }
 
-    const startTime = Date.now();
-    this.stats.currentContextSize = userMessage.length;
+    const model = options.model || this.model;
+    const contextSize = getMessagesLength(messages);
+    this.stats.currentContextSize = contextSize;
 
-    const messages: OllamaChatMessage[] = [
+    const chatMessages: OllamaChatMessage[] = [
       { role: 'system', content: systemPrompt },
-      { role: 'user', content: userMessage },
+      ...messages.map((message) => ({ role: message.role, content: message.content })),
     ];
 
+    let tools = options.tools;
+    let fullText = '';
+
     try {
-      // Use fetch for streaming (requestUrl doesn't support streaming)
-      const response = await fetch(`${this.baseUrl}/api/chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages,
-          stream: true,
-        }),
-      });
+      // Each round either answers or asks for tools; the last round is sent without them
+      for (let round = 0; ; round++) {
+        const startTime = Date.now();
+        const finalRound = !tools || round >= tools.maxRounds;
+        const toolCalls: OllamaToolCall[] = [];
+        let roundText = '';
+        let finalResponse: OllamaChatResponse | null = null;
+
+        const reader = await withRetry(
+          async () => {
+            try {
+              // Use fetch for streaming (requestUrl doesn't support streaming)
+              const response = await fetch(`${this.baseUrl}/api/chat`, {
+                method: 'POST',
+                headers: {
+                  'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                  model,
+                  messages: chatMessages,
+                  tools: tools && !finalRound ? this.toOllamaTools(tools.definitions) : undefined,
+                  stream: true,
+                  options: this.getModelOptions(options.params),
+                  keep_alive: this.getKeepAlive(),
+                }),
+                signal: options.signal,
+              });
+
+              if (!response.ok) {
+                const text = await response.text();
+                if (tools && TOOLS_UNSUPPORTED_PATTERN.test(text)) {
+                  return null;
+                }
+                throw classifyHttpError(
+                  this.name,
+                  response.status,
+                  text,
+                  response.headers.get('retry-after'),
+                  this.getErrorHints(model)
+                );
+              }
+
+              const body = response.body?.getReader();
+              if (!body) {
+                throw new Error('No response body');
+              }
+              return body;
+            } catch (error) {
+              throw classifyRequestError(this.name, error, this.getErrorHints(model));
+            }
+          },
+          { signal: options.signal }
+        );
+
+        // The model can't call tools, answer without them
+        if (!reader) {
+          tools = undefined;
+          continue;
+        }
 
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+        // Ollama returns newline-delimited JSON
+        await readNdjson<OllamaChatResponse>(reader, (data) => {
+          // Failures after the 200 response (e.g. the model running out of memory) arrive in the stream
+          if (data.error) {
+            throw classifyStreamError(this.name, data.error, this.getErrorHints(model));
+          }
+          if (data.message?.content) {
+            roundText += data.message.content;
+            // A round that may still call tools is held back until it ends:
+            // text before a tool call isn't the answer
+            if (finalRound) {
+              fullText += data.message.content;
+              onStream(data.message.content);
+            }
+          }
+          if (data.message?.tool_calls) {
+            toolCalls.push(...data.message.tool_calls);
+          }
+          if (data.done) {
+            finalResponse = data;
+          }
+        });
+
+        // Update stats, each round is a separate request
+        this.recordResponseUsage(model, finalResponse, contextSize, roundText.length, Date.now() - startTime);
+
+        if (!tools || finalRound || toolCalls.length === 0) {
+          if (!finalRound && roundText) {
+            fullText += roundText;
+            onStream(roundText);
+          }
+          break;
+        }
+
+        chatMessages.push({ role: 'assistant', content: roundText, tool_calls: toolCalls });
+        for (const call of toolCalls) {
+          chatMessages.push({
+            role: 'tool',
+            tool_name: call.function.name,
+            content: await tools.execute({
+              name: call.function.name,
+              arguments: call.function.arguments ?? {},
+            }),
+          });
+        }
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
+      onComplete(fullText);
+    } catch (error) {
+      const classified = classifyRequestError(this.name, error, this.getErrorHints(model));
+      if (!isAbortError(classified)) {
+        console.error('Ollama API error:', error);
       }
+      throw classified;
+    }
+  }
 
-      const decoder = new TextDecoder();
-      let fullText = '';
+  /**
+   * Convert tool definitions to Ollama's function-calling format
+   */
+  private toOllamaTools(definitions: ToolDefinition[]): Array<Record<string, unknown>> {
+    return definitions.map((definition) => ({
+      type: 'function',
+      function: {
+        name: definition.name,
+        description: definition.description,
+        parameters: definition.parameters,
+      },
+    }));
+  }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+  /**
+   * Map generation parameters onto Ollama's model options.
+   * Unset fields are left out so the Modelfile defaults apply.
+   */
+  private getModelOptions(params: GenerationParams = {}): Record<string, unknown> {
+    return {
+      num_predict: params.maxTokens,
+      temperature: params.temperature,
+      top_p: params.topP,
+      stop: params.stopSequences?.length ? params.stopSequences : undefined,
+    };
+  }
 
-        const chunk = decoder.decode(value, { stream: true });
-        // Ollama returns newline-delimited JSON
-        const lines = chunk.split('\n').filter((line) => line.trim());
+  /**
+   * Record token counts and timing from a final response.
+   * Older servers and some proxies omit the eval counts, so fall back to estimates.
+   */
+  private recordResponseUsage(
+    model: string,
+    data: OllamaChatResponse | null,
+    contextSize: number,
+    outputSize: number,
+    durationMs: number
+  ): void {
+    const usage: TokenUsage = {
+      inputTokens: data?.prompt_eval_count ?? estimateTokens(contextSize),
+      outputTokens: data?.eval_count ?? estimateTokens(outputSize),
+      durationMs,
+    };
+    if (data?.eval_duration) {
+      usage.generationMs = data.eval_duration / 1e6;
+    }
+    if (data?.load_duration) {
+      usage.loadMs = data.load_duration / 1e6;
+    }
+    recordUsage(this.stats, usage);
+    this.usageListener?.(model, usage);
+  }
+
+  async generate(
+    systemPrompt: string,
+    messages: Message[],
+    options: RequestOptions = {}
+  ): Promise<string | null> {
+    if (!this.isConfigured()) {
+      throw createProviderError('not-configured', this.name, this.getErrorHints());
+    }
 
-        for (const line of lines) {
+    const model = options.model || this.model;
+    const startTime = Date.now();
+    const contextSize = getMessagesLength(messages);
+    this.stats.currentContextSize = contextSize;
+
+    const chatMessages: OllamaChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...messages.map((message) => ({ role: message.role, content: message.content })),
+    ];
+
+    try {
+      const response = await withRetry(
+        async () => {
           try {
-            const data = JSON.parse(line) as OllamaChatResponse;
-            if (data.message?.content) {
-              fullText += data.message.content;
-              onStream(data.message.content);
+            // requestUrl can't be cancelled, so stop waiting on it instead
+            const result = await raceAbort(
+              requestUrl({
+                url: `${this.baseUrl}/api/chat`,
+                method: 'POST',
+                headers: {
+                  'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                  model,
+                  messages: chatMessages,
+                  // JSON mode works on every model; the schema itself is described in the prompt
+                  format: options.responseFormat ? 'json' : undefined,
+                  stream: false,
+                  options: this.getModelOptions(options.params),
+                  keep_alive: this.getKeepAlive(),
+                }),
+                throw: false,
+              }),
+              options.signal
+            );
+
+            if (result.status >= 400) {
+              throw classifyHttpError(
+                this.name,
+                result.status,
+                result.text,
+                getHeader(result.headers, 'retry-after'),
+                this.getErrorHints(model)
+              );
             }
-          } catch {
-            // Skip invalid JSON lines
+            return result;
+          } catch (error) {
+            throw classifyRequestError(this.name, error, this.getErrorHints(model));
           }
-        }
-      }
+        },
+        { signal: options.signal }
+      );
+
+      const data = response.json as OllamaChatResponse;
 
       // Update stats
-      this.stats.lastResponseTime = Date.now() - startTime;
-      // Ollama doesn't provide token counts, estimate based on character count
-      const estimatedTokens = Math.ceil((userMessage.length + fullText.length) / 4);
-      this.stats.tokensThisSession += estimatedTokens;
-      this.stats.tokensToday += estimatedTokens;
+      const content = data.message?.content || '';
+      this.recordResponseUsage(model, data, contextSize, content.length, Date.now() - startTime);
 
-      onComplete(fullText);
+      return content.trim() || null;
     } catch (error) {
-      console.error('Ollama API error:', error);
+      if (!isAbortError(error)) {
+        console.error('Ollama API error:', error);
+      }
       throw error;
     }
   }
 
-  async generate(systemPrompt: string, userMessage: string): Promise<string | null> {
-    if (!this.isConfigured()) {
-      throw new Error('Ollama not configured. Please select a model in settings.');
+  /**
+   * Get details of an installed model
+   */
+  async getModelDetails(model: string = this.model): Promise<OllamaModelDetails> {
+    let data: OllamaShowResponse;
+    try {
+      const response = await requestUrl({
+        url: `${this.baseUrl}/api/show`,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model }),
+        throw: false,
+      });
+
+      if (response.status >= 400) {
+        throw classifyHttpError(
+          this.name,
+          response.status,
+          response.text,
+          undefined,
+          this.getErrorHints(model)
+        );
+      }
+      data = response.json as OllamaShowResponse;
+    } catch (error) {
+      throw classifyRequestError(this.name, error, this.getErrorHints(model));
     }
 
-    const startTime = Date.now();
-    this.stats.currentContextSize = userMessage.length;
+    // The context length key is prefixed with the architecture, e.g. "llama.context_length"
+    let contextLength: number | undefined;
+    for (const [key, value] of Object.entries(data.model_info ?? {})) {
+      if (key.endsWith('.context_length') && typeof value === 'number') {
+        contextLength = value;
+      }
+    }
 
-    const messages: OllamaChatMessage[] = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userMessage },
-    ];
+    return {
+      family: data.details?.family,
+      parameterSize: data.details?.parameter_size,
+      quantization: data.details?.quantization_level,
+      contextLength,
+    };
+  }
+
+  /**
+   * Download a model, reporting progress as layers arrive
+   */
+  async pullModel(
+    model: string,
+    onProgress: (progress: OllamaPullProgress) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/pull`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model, stream: true }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw classifyHttpError(
+          this.name,
+          response.status,
+          await response.text(),
+          null,
+          this.getErrorHints(model)
+        );
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('No response body');
+      }
+
+      await readNdjson<OllamaPullResponse>(reader, (data) => {
+        // An unknown model name is reported in the stream, not as an HTTP error
+        if (data.error) {
+          throw createProviderError('unknown', this.name, {}, { detail: data.error });
+        }
+        onProgress({
+          status: data.status ?? '',
+          completed: data.completed,
+          total: data.total,
+        });
+      });
+    } catch (error) {
+      throw classifyRequestError(this.name, error, this.getErrorHints(model));
+    }
+  }
+
+  /**
+   * Load the model into memory ahead of the first request, so it doesn't
+   * start cold. An empty generate request only loads the model.
+   */
+  async warmUp(): Promise<void> {
+    if (!this.isConfigured()) {
+      throw createProviderError('not-configured', this.name, this.getErrorHints());
+    }
 
     try {
       const response = await requestUrl({
-        url: `${this.baseUrl}/api/chat`,
+        url: `${this.baseUrl}/api/generate`,
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           model: this.model,
-          messages,
-          stream: false,
+          keep_alive: this.getKeepAlive(),
         }),
+        throw: false,
       });
 
-      const data = response.json as OllamaChatResponse;
-
-      // Update stats
-      this.stats.lastResponseTime = Date.now() - startTime;
-      const content = data.message?.content || '';
-      const estimatedTokens = Math.ceil((userMessage.length + content.length) / 4);
-      this.stats.tokensThisSession += estimatedTokens;
-      this.stats.tokensToday += estimatedTokens;
-
-      return content.trim() || null;
+      if (response.status >= 400) {
+        throw classifyHttpError(
+          this.name,
+          response.status,
+          response.text,
+          undefined,
+          this.getErrorHints()
+        );
+      }
     } catch (error) {
-      console.error('Ollama API error:', error);
-      throw error;
+      throw classifyRequestError(this.name, error, this.getErrorHints());
     }
   }
 
-  async testConnection(): Promise<boolean> {
+  async testConnection(): Promise<ConnectionDiagnostics> {
+    const hints = this.getErrorHints();
+    const diagnostics = createDiagnostics(this.name, this.baseUrl, this.model);
+    setCheck(diagnostics, 'auth', 'skip', "Ollama doesn't use authentication");
+
+    // /api/version is the cheapest request Ollama answers
+    const startTime = Date.now();
+    let versionResponse;
     try {
-      const models = await this.listModels();
-      return models.length > 0;
+      versionResponse = await requestUrl({ url: `${this.baseUrl}/api/version`, method: 'GET', throw: false });
+    } catch {
+      setCheck(diagnostics, 'reachability', 'fail', hints.network as string);
+      return diagnostics;
+    }
+    if (versionResponse.status >= 400) {
+      setCheck(
+        diagnostics,
+        'reachability',
+        'fail',
+        `Something answered at ${this.baseUrl}, but not Ollama (HTTP ${versionResponse.status}). Check the base URL.`
+      );
+      return diagnostics;
+    }
+
+    setCheck(diagnostics, 'reachability', 'pass', `Ollama answered at ${this.baseUrl}`);
+    setLatency(diagnostics, Date.now() - startTime);
+    const version = (versionResponse.json as { version?: string } | null)?.version;
+    setCheck(diagnostics, 'version', version ? 'pass' : 'warn', version ? `Ollama ${version}` : 'Not reported');
+
+    // The server can be fine with nothing installed yet, only the model check fails then
+    const models = await this.listModels();
+    if (!this.model) {
+      setCheck(
+        diagnostics,
+        'model',
+        'fail',
+        models.length > 0 ? hints['not-configured'] as string : 'No models installed. Pull one in settings.'
+      );
+      return diagnostics;
+    }
+    // Ollama treats "llama3" and "llama3:latest" as the same model
+    const installed = models.some(
+      (name) => name === this.model || name === `${this.model}:latest`
+    );
+    if (!installed) {
+      setCheck(diagnostics, 'model', 'fail', hints['model-not-found'] as string);
+      return diagnostics;
+    }
+    setCheck(diagnostics, 'model', 'pass', `${this.model} is installed`);
+
+    try {
+      let chunks = 0;
+      const response = await fetch(`${this.baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{ role: 'user', content: 'Hi' }],
+          stream: true,
+          options: { num_predict: 1 },
+          keep_alive: this.getKeepAlive(),
+        }),
+      });
+      if (!response.ok) {
+        throw classifyHttpError(this.name, response.status, await response.text(), null, hints);
+      }
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('No response body');
+      }
+      await readNdjson<OllamaChatResponse>(reader, (data) => {
+        if (data.error) {
+          throw classifyStreamError(this.name, data.error, hints);
+        }
+        chunks++;
+      });
+      setCheck(diagnostics, 'streaming', 'pass', `Received ${chunks} chunk${chunks === 1 ? '' : 's'}`);
     } catch (error) {
-      console.error('Ollama connection test failed:', error);
-      return false;
+      setCheck(diagnostics, 'streaming', 'fail', getErrorMessage(classifyRequestError(this.name, error, hints)));
     }
+
+    return diagnostics;
   }
 
   getStats(): DeveloperStats {
@@ -226,5 +705,9 @@ export class OllamaProvider implements LLMProvider {
 
   resetSessionStats(): void {
     this.stats.tokensThisSession = 0;
+    this.stats.inputTokensThisSession = 0;
+    this.stats.outputTokensThisSession = 0;
+    this.stats.cacheReadTokensThisSession = 0;
+    this.stats.cacheWriteTokensThisSession = 0;
   }
 }
@@ -0,0 +1,497 @@
+import { requestUrl } from 'obsidian';
+import { DeveloperStats } from '../types';
+import {
+  LLMProvider,
+  Message,
+  RequestOptions,
+  StreamCallback,
+  CompleteCallback,
+  getMessagesLength,
+  isAbortError,
+  raceAbort,
+} from './provider';
+import {
+  ErrorHints,
+  classifyHttpError,
+  classifyRequestError,
+  classifyStreamError,
+  createProviderError,
+  getErrorMessage,
+  getHeader,
+  withRetry,
+} from './errors';
+import { ConnectionDiagnostics, createDiagnostics, setCheck, setLatency } from './diagnostics';
+import { readSse } from './streaming';
+import { TokenUsage, UsageListener, createEmptyStats, estimateTokens, recordUsage } from './stats';
+
+/**
+ * OpenAI-compatible API response types
+ */
+interface OpenAIModelsResponse {
+  data: Array<{
+    id: string;
+    object: string;
+    owned_by?: string;
+  }>;
+}
+
+interface OpenAIChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface OpenAIChatResponse {
+  id: string;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: string;
+      content: string | null;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface OpenAIChatChunk {
+  id: string;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
+  error?: string | { message?: string };
+}
+
+/**
+ * OpenAI-compatible provider implementation (LM Studio, llama.cpp server, vLLM)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'OpenAI-compatible';
+  private baseUrl: string;
+  private apiKey: string;
+  private model: string;
+  private stats: DeveloperStats = createEmptyStats();
+  private usageListener: UsageListener | null = null;
+
+  constructor(baseUrl: string = 'http://localhost:1234/v1', apiKey: string = '', model: string = '') {
+    this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  /**
+   * Update the base URL
+   */
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  /**
+   * Update the API key (optional for most local servers)
+   */
+  setApiKey(apiKey: string): void {
+    this.apiKey = apiKey;
+  }
+
+  /**
+   * Update the model
+   */
+  setModel(model: string): void {
+    this.model = model;
+  }
+
+  /**
+   * Set a listener that receives the usage of every completed response
+   */
+  setUsageListener(listener: UsageListener | null): void {
+    this.usageListener = listener;
+  }
+
+  /**
+   * Get current model
+   */
+  getModel(): string {
+    return this.model;
+  }
+
+  isConfigured(): boolean {
+    return this.baseUrl.length > 0 && this.model.length > 0;
+  }
+
+  /**
+   * User-facing wording for OpenAI-compatible server failures
+   */
+  private getErrorHints(model: string = this.model): ErrorHints {
+    return {
+      'not-configured': 'Set the server base URL and select a model in Enchanted Notes settings.',
+      auth: 'The server rejected the API key. Check the key in Enchanted Notes settings, or clear it if your server needs none.',
+      network: `Nothing is answering at ${this.baseUrl}. Start LM Studio's server, llama-server or vLLM, and check the base URL includes /v1.`,
+      'model-not-found': `The server doesn't have the model "${model}" loaded. Load it on the server or refresh the model list in settings.`,
+      'context-too-long': `This note is too long for "${model}". Turn off linked note context or start the server with a larger context size.`,
+    };
+  }
+
+  /**
+   * Build request headers, adding the bearer key when one is set
+   */
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await requestUrl({
+        url: `${this.baseUrl}/models`,
+        method: 'GET',
+        headers: this.getHeaders(),
+      });
+
+      const data = response.json as OpenAIModelsResponse;
+      return data.data.map((m) => m.id);
+    } catch (error) {
+      console.error('Failed to fetch OpenAI-compatible models:', error);
+      return [];
+    }
+  }
+
+  async chat(
+    systemPrompt: string,
+    messages: Message[],
+    onStream: StreamCallback,
+    onComplete: CompleteCallback,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    if (!this.isConfigured()) {
+      throw createProviderError('not-configured', this.name, this.getErrorHints());
+    }
+
+    const model = options.model || this.model;
+    const params = options.params ?? {};
+    const startTime = Date.now();
+    const contextSize = getMessagesLength(messages);
+    this.stats.currentContextSize = contextSize;
+
+    const chatMessages: OpenAIChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...messages.map((message) => ({ role: message.role, content: message.content })),
+    ];
+
+    let fullText = '';
+
+    try {
+      const reader = await withRetry(
+        async () => {
+          try {
+            // Use fetch for streaming (requestUrl doesn't support streaming)
+            const response = await fetch(`${this.baseUrl}/chat/completions`, {
+              method: 'POST',
+              headers: this.getHeaders(),
+              body: JSON.stringify({
+                model,
+                messages: chatMessages,
+                max_tokens: params.maxTokens ?? 300,
+                temperature: params.temperature,
+                top_p: params.topP,
+                stop: params.stopSequences?.length ? params.stopSequences : undefined,
+                stream: true,
+                stream_options: { include_usage: true },
+              }),
+              signal: options.signal,
+            });
+
+            if (!response.ok) {
+              throw classifyHttpError(
+                this.name,
+                response.status,
+                await response.text(),
+                response.headers.get('retry-after'),
+                this.getErrorHints(model)
+              );
+            }
+
+            const body = response.body?.getReader();
+            if (!body) {
+              throw new Error('No response body');
+            }
+            return body;
+          } catch (error) {
+            throw classifyRequestError(this.name, error, this.getErrorHints(model));
+          }
+        },
+        { signal: options.signal }
+      );
+
+      // Assigned in the event callback, which narrowing can't see
+      let usage = null as OpenAIChatChunk['usage'];
+
+      await readSse(reader, (event) => {
+        const payload = event.data.trim();
+        if (payload === '[DONE]') {
+          return;
+        }
+
+        let data: OpenAIChatChunk;
+        try {
+          data = JSON.parse(payload) as OpenAIChatChunk;
+        } catch {
+          console.warn('Skipping invalid JSON event in stream:', payload.slice(0, 200));
+          return;
+        }
+
+        // Some servers report failures after the 200 response as an error event
+        if (data.error) {
+          const message =
+            typeof data.error === 'string' ? data.error : data.error.message || 'Stream error';
+          throw classifyStreamError(this.name, message, this.getErrorHints(model));
+        }
+
+        const content = data.choices?.[0]?.delta?.content;
+        if (content) {
+          fullText += content;
+          onStream(content);
+        }
+        if (data.usage) {
+          usage = data.usage;
+        }
+      });
+
+      // Update stats - not every server reports usage while streaming, estimate when it doesn't
+      const tokenUsage: TokenUsage = {
+        inputTokens: usage ? usage.prompt_tokens : estimateTokens(contextSize),
+        outputTokens: usage ? usage.completion_tokens : estimateTokens(fullText.length),
+        durationMs: Date.now() - startTime,
+      };
+      recordUsage(this.stats, tokenUsage);
+      this.usageListener?.(model, tokenUsage);
+
+      onComplete(fullText);
+    } catch (error) {
+      const classified = classifyRequestError(this.name, error, this.getErrorHints(model));
+      if (!isAbortError(classified)) {
+        console.error('OpenAI-compatible API error:', error);
+      }
+      throw classified;
+    }
+  }
+
+  async generate(
+    systemPrompt: string,
+    messages: Message[],
+    options: RequestOptions = {}
+  ): Promise<string | null> {
+    if (!this.isConfigured()) {
+      throw createProviderError('not-configured', this.name, this.getErrorHints());
+    }
+
+    const model = options.model || this.model;
+    const params = options.params ?? {};
+    const startTime = Date.now();
+    const contextSize = getMessagesLength(messages);
+    this.stats.currentContextSize = contextSize;
+
+    const chatMessages: OpenAIChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...messages.map((message) => ({ role: message.role, content: message.content })),
+    ];
+
+    try {
+      const response = await withRetry(
+        async () => {
+          try {
+            // requestUrl can't be cancelled, so stop waiting on it instead
+            const result = await raceAbort(
+              requestUrl({
+                url: `${this.baseUrl}/chat/completions`,
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify({
+                  model,
+                  messages: chatMessages,
+                  max_tokens: params.maxTokens ?? 100,
+                  temperature: params.temperature,
+                  top_p: params.topP,
+                  stop: params.stopSequences?.length ? params.stopSequences : undefined,
+                  response_format: options.responseFormat
+                    ? {
+                        type: 'json_schema',
+                        json_schema: {
+                          name: options.responseFormat.name,
+                          schema: options.responseFormat.schema,
+                        },
+                      }
+                    : undefined,
+                  stream: false,
+                }),
+                throw: false,
+              }),
+              options.signal
+            );
+
+            if (result.status >= 400) {
+              throw classifyHttpError(
+                this.name,
+                result.status,
+                result.text,
+                getHeader(result.headers, 'retry-after'),
+                this.getErrorHints(model)
+              );
+            }
+            return result;
+          } catch (error) {
+            throw classifyRequestError(this.name, error, this.getErrorHints(model));
+          }
+        },
+        { signal: options.signal }
+      );
+
+      const data = response.json as OpenAIChatResponse;
+
+      // Update stats
+      const content = data.choices?.[0]?.message?.content || '';
+      const usage: TokenUsage = {
+        inputTokens: data.usage ? data.usage.prompt_tokens : estimateTokens(contextSize),
+        outputTokens: data.usage ? data.usage.completion_tokens : estimateTokens(content.length),
+        durationMs: Date.now() - startTime,
+      };
+      recordUsage(this.stats, usage);
+      this.usageListener?.(model, usage);
+
+      return content.trim() || null;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('OpenAI-compatible API error:', error);
+      }
+      throw error;
+    }
+  }
+
+  async testConnection(): Promise<ConnectionDiagnostics> {
+    const hints = this.getErrorHints();
+    const diagnostics = createDiagnostics(this.name, this.baseUrl, this.model);
+
+    // Listing models checks reachability and the key without generating anything
+    const startTime = Date.now();
+    let modelsResponse;
+    try {
+      modelsResponse = await requestUrl({
+        url: `${this.baseUrl}/models`,
+        method: 'GET',
+        headers: this.getHeaders(),
+        throw: false,
+      });
+    } catch {
+      setCheck(diagnostics, 'reachability', 'fail', hints.network as string);
+      return diagnostics;
+    }
+
+    if (modelsResponse.status === 401 || modelsResponse.status === 403) {
+      setCheck(diagnostics, 'reachability', 'pass', `The server answered at ${this.baseUrl}`);
+      setCheck(diagnostics, 'auth', 'fail', hints.auth as string);
+      return diagnostics;
+    }
+    if (modelsResponse.status >= 400) {
+      setCheck(
+        diagnostics,
+        'reachability',
+        'fail',
+        `${this.baseUrl}/models answered HTTP ${modelsResponse.status}. Check the base URL includes /v1.`
+      );
+      return diagnostics;
+    }
+
+    setCheck(diagnostics, 'reachability', 'pass', `The server answered at ${this.baseUrl}`);
+    setCheck(diagnostics, 'auth', 'pass', this.apiKey ? 'API key accepted' : 'No key needed');
+    setLatency(diagnostics, Date.now() - startTime);
+
+    // There's no standard version endpoint, but many servers name themselves in a header
+    const server = getHeader(modelsResponse.headers, 'server');
+    setCheck(diagnostics, 'version', server ? 'pass' : 'skip', server || 'Not reported by the server');
+
+    const models = ((modelsResponse.json as OpenAIModelsResponse | null)?.data ?? []).map((m) => m.id);
+    if (!this.model) {
+      setCheck(
+        diagnostics,
+        'model',
+        'fail',
+        models.length > 0 ? hints['not-configured'] as string : 'The server has no models loaded.'
+      );
+      return diagnostics;
+    }
+    if (!models.includes(this.model)) {
+      setCheck(diagnostics, 'model', 'fail', hints['model-not-found'] as string);
+      return diagnostics;
+    }
+    setCheck(diagnostics, 'model', 'pass', `${this.model} is loaded`);
+
+    try {
+      let chunks = 0;
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{ role: 'user', content: 'Hi' }],
+          max_tokens: 1,
+          stream: true,
+        }),
+      });
+      if (!response.ok) {
+        throw classifyHttpError(this.name, response.status, await response.text(), null, hints);
+      }
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('No response body');
+      }
+      await readSse(reader, (event) => {
+        if (event.data.trim() !== '[DONE]') {
+          chunks++;
+        }
+      });
+      setCheck(
+        diagnostics,
+        'streaming',
+        chunks > 0 ? 'pass' : 'fail',
+        chunks > 0
+          ? `Received ${chunks} event${chunks === 1 ? '' : 's'}`
+          : "The server didn't send any server-sent events"
+      );
+    } catch (error) {
+      setCheck(diagnostics, 'streaming', 'fail', getErrorMessage(classifyRequestError(this.name, error, hints)));
+    }
+
+    return diagnostics;
+  }
+
+  getStats(): DeveloperStats {
+    return { ...this.stats };
+  }
+
+  resetSessionStats(): void {
+    this.stats.tokensThisSession = 0;
+    this.stats.inputTokensThisSession = 0;
+    this.stats.outputTokensThisSession = 0;
+    this.stats.cacheReadTokensThisSession = 0;
+    this.stats.cacheWriteTokensThisSession = 0;
+  }
+}
@@ -1,4 +1,6 @@
-import { DeveloperStats } from '../types';
+import { DeveloperStats, GenerationParams } from '../types';
+import { ConnectionDiagnostics } from './diagnostics';
+import { RequestPriority } from './scheduler';
 
 /**
  * Message format for chat interactions
@@ -6,6 +8,180 @@ import { DeveloperStats } from '../types';
 export interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
+  /**
+   * Offsets into content where a part that stays the same between requests
+   * ends (linked notes, earlier note text). Providers with prompt caching
+   * cache up to these points; others ignore them.
+   */
+  cacheBreakpoints?: number[];
+}
+
+/**
+ * Total character length of a conversation (used for context size stats)
+ */
+export function getMessagesLength(messages: Message[]): number {
+  return messages.reduce((total, message) => total + message.content.length, 0);
+}
+
+/**
+ * Per-request options shared by chat() and generate()
+ */
+export interface RequestOptions {
+  /** Aborts the request, including a stream that is already in flight */
+  signal?: AbortSignal;
+
+  /** Use this model instead of the provider's configured one */
+  model?: string;
+
+  /** Sampling parameters, unset fields fall back to the provider's defaults */
+  params?: GenerationParams;
+
+  /**
+   * Tools the model may call before answering (chat only). Providers
+   * without tool support ignore them and answer directly.
+   */
+  tools?: ToolOptions;
+
+  /**
+   * Ask for a JSON object matching a schema (generate only). The response
+   * is the JSON text; callers should still validate it, since not every
+   * backend can enforce the schema.
+   */
+  responseFormat?: ResponseFormat;
+
+  /** How urgent the request is when it has to wait for a free slot */
+  priority?: RequestPriority;
+
+  /** The note the request is about, so queued requests can be dropped when it changes */
+  notePath?: string;
+}
+
+/**
+ * A structured response to ask the model for
+ */
+export interface ResponseFormat {
+  name: string;
+  description: string;
+  schema: ToolDefinition['parameters'];
+}
+
+/**
+ * A tool the model can call, described by a JSON schema for its arguments
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+/**
+ * A tool call requested by the model
+ */
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Runs a tool call and returns the result to show the model
+ */
+export type ToolExecutor = (call: ToolCall) => Promise<string>;
+
+/**
+ * Tools offered for a request
+ */
+export interface ToolOptions {
+  definitions: ToolDefinition[];
+  execute: ToolExecutor;
+  /** Most rounds of tool calls before the model must answer */
+  maxRounds: number;
+}
+
+/**
+ * Create the error thrown when a request is aborted
+ */
+export function createAbortError(): Error {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Check whether an error came from an aborted request
+ */
+export function isAbortError(error: unknown): boolean {
+  // fetch rejects with a DOMException, which isn't always an Error subclass
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { name?: unknown }).name === 'AbortError'
+  );
+}
+
+/**
+ * Throw an abort error if the signal has already fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Reject as soon as the signal fires, for calls that can't be cancelled
+ * themselves (such as Obsidian's requestUrl)
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal fires
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
@@ -30,27 +206,34 @@ export interface LLMProvider {
   /**
    * Generate a streaming chat response
    * @param systemPrompt The system prompt to use
-   * @param userMessage The user's message
+   * @param messages The conversation so far, alternating user/assistant and ending with a user turn
    * @param onStream Callback for each streamed chunk
    * @param onComplete Callback when streaming is complete
+   * @param options Per-request options such as an abort signal
    */
   chat(
     systemPrompt: string,
-    userMessage: string,
+    messages: Message[],
     onStream: StreamCallback,
-    onComplete: CompleteCallback
+    onComplete: CompleteCallback,
+    options?: RequestOptions
   ): Promise<void>;
 
   /**
    * Generate a non-streaming response (for whispers)
    * @param systemPrompt The system prompt to use
-   * @param userMessage The user's message
+   * @param messages The conversation so far, ending with a user turn
+   * @param options Per-request options such as an abort signal
    * @returns The complete response or null if no response
    */
-  generate(systemPrompt: string, userMessage: string): Promise<string | null>;
+  generate(
+    systemPrompt: string,
+    messages: Message[],
+    options?: RequestOptions
+  ): Promise<string | null>;
 
-  /** Test the connection to the provider */
-  testConnection(): Promise<boolean>;
+  /** Check the connection to the provider, step by step */
+  testConnection(): Promise<ConnectionDiagnostics>;
 
   /** Get developer stats */
   getStats(): DeveloperStats;
@@ -62,7 +245,7 @@ export interface LLMProvider {
 /**
  * Provider type enum
  */
-export type ProviderType = 'claude' | 'ollama';
+export type ProviderType = 'claude' | 'ollama' | 'openai' | 'mock';
 
 /**
  * Provider configuration in settings
@@ -77,6 +260,11 @@ export interface ProviderConfig {
   // Ollama settings
   ollamaBaseUrl: string;
   ollamaModel: string;
+
+  // OpenAI-compatible settings
+  openaiBaseUrl: string;
+  openaiApiKey: string;
+  openaiModel: string;
 }
 
 export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
@@ -85,4 +273,7 @@ export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
   claudeModel: 'claude-sonnet-4-20250514',
   ollamaBaseUrl: 'http://localhost:11434',
   ollamaModel: '',
+  openaiBaseUrl: 'http://localhost:1234/v1',
+  openaiApiKey: '',
+  openaiModel: '',
 };
@@ -0,0 +1,171 @@
+import {
+  EnchantedNotesSettings,
+  GenerationParams,
+  InteractionStyle,
+  Mood,
+  ProviderType,
+  RoutingRule,
+} from '../types';
+import { LLMProvider } from './provider';
+import { FallbackProvider, ProviderChainEntry, RequestGuard } from './fallback';
+import { RequestScheduler } from './scheduler';
+import { ResponseCache } from './cache';
+
+const PROVIDER_TYPES: ProviderType[] = ['claude', 'ollama', 'openai', 'mock'];
+
+/**
+ * Split a model override into provider and model: "ollama:llama3.2:3b" pins
+ * the provider, while "llama3.2:3b" keeps the provider that would be tried first
+ */
+export function parseModelOverride(value: string): { provider?: ProviderType; model: string } {
+  const separator = value.indexOf(':');
+  const prefix = separator === -1 ? '' : value.substring(0, separator).trim().toLowerCase();
+  const provider = PROVIDER_TYPES.find((type) => type === prefix);
+  return provider
+    ? { provider, model: value.substring(separator + 1).trim() }
+    : { model: value.trim() };
+}
+
+/**
+ * Resolves which provider and model should handle a request, based on the
+ * interaction style and mood. The first matching routing rule picks the
+ * backend to try first; the primary provider and configured fallbacks follow
+ * it so a routed request still survives an outage.
+ */
+export class ProviderRouter {
+  private getProvider: (type: ProviderType) => LLMProvider | null;
+  private settings: EnchantedNotesSettings;
+  private lastAnswered: ProviderChainEntry | null = null;
+  private guard: RequestGuard | null = null;
+  private scheduler: RequestScheduler | null = null;
+  private cache: ResponseCache | null = null;
+
+  constructor(
+    getProvider: (type: ProviderType) => LLMProvider | null,
+    settings: EnchantedNotesSettings
+  ) {
+    this.getProvider = getProvider;
+    this.settings = settings;
+  }
+
+  /**
+   * Update settings
+   */
+  updateSettings(settings: EnchantedNotesSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Set a check that runs before every request, e.g. for spending caps
+   */
+  setRequestGuard(guard: RequestGuard | null): void {
+    this.guard = guard;
+  }
+
+  /**
+   * Set the queue that every resolved provider sends its requests through
+   */
+  setScheduler(scheduler: RequestScheduler | null): void {
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Set the cache that every resolved provider answers repeated requests from
+   */
+  setResponseCache(cache: ResponseCache | null): void {
+    this.cache = cache;
+  }
+
+  /**
+   * Find the first routing rule that applies to a style and mood
+   */
+  findRule(style: InteractionStyle, mood: Mood): RoutingRule | null {
+    return (
+      this.settings.routingRules.find(
+        (rule) =>
+          (rule.style === 'any' || rule.style === style) &&
+          (rule.mood === 'any' || rule.mood === mood)
+      ) ?? null
+    );
+  }
+
+  /**
+   * Get the provider (with fallbacks) to use for a style and mood
+   * @param modelOverride A note's own model, tried before any routing rule
+   */
+  resolve(style: InteractionStyle, mood: Mood, modelOverride?: string): FallbackProvider {
+    const entries: ProviderChainEntry[] = [];
+    const addEntry = (type: ProviderType, model?: string) => {
+      const provider = this.getProvider(type);
+      if (provider && !entries.some((entry) => entry.provider === provider)) {
+        entries.push({ type, provider, model: model || undefined });
+      }
+    };
+
+    const rule = this.findRule(style, mood);
+    const override = modelOverride ? parseModelOverride(modelOverride) : null;
+    if (override?.model) {
+      addEntry(override.provider ?? rule?.provider ?? this.settings.provider, override.model);
+    }
+    if (rule) {
+      addEntry(rule.provider, rule.model);
+    }
+
+    addEntry(this.settings.provider);
+    for (const type of this.settings.fallbackProviders) {
+      addEntry(type);
+    }
+
+    return new FallbackProvider(
+      entries,
+      (entry) => {
+        this.lastAnswered = entry;
+      },
+      this.guard,
+      this.scheduler,
+      this.cache
+    );
+  }
+
+  /**
+   * Get the generation parameters for a style and mood: the style's
+   * defaults, with fields from the first matching mood override on top
+   */
+  getGenerationParams(style: InteractionStyle, mood: Mood): GenerationParams {
+    const params: GenerationParams = { ...this.settings.generationParams[style] };
+
+    const override = this.settings.moodGenerationOverrides.find(
+      (entry) => entry.mood === mood && (entry.style === 'any' || entry.style === style)
+    );
+    if (override) {
+      if (override.maxTokens !== undefined) {
+        params.maxTokens = override.maxTokens;
+      }
+      if (override.temperature !== undefined) {
+        params.temperature = override.temperature;
+      }
+      if (override.topP !== undefined) {
+        params.topP = override.topP;
+      }
+      if (override.stopSequences?.length) {
+        params.stopSequences = override.stopSequences;
+      }
+    }
+
+    return params;
+  }
+
+  /**
+   * Get the backend (and model) that answered the most recent request
+   */
+  getLastAnswered(): ProviderChainEntry | null {
+    return this.lastAnswered;
+  }
+
+  /**
+   * Get the primary provider
+   */
+  getPrimary(): LLMProvider | null {
+    return this.getProvider(this.settings.provider);
+  }
+}
@@ -0,0 +1,191 @@
+import { ProviderType } from '../types';
+import { createAbortError, throwIfAborted } from './provider';
+
+/**
+ * Who a request is for, most urgent first: a muse the user summoned, a muse
+ * triggered by a pause in typing, then a background whisper
+ */
+export type RequestPriority = 'summoned' | 'pause' | 'whisper';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  summoned: 0,
+  pause: 1,
+  whisper: 2,
+};
+
+/**
+ * Gives back a slot taken with acquire(), safe to call more than once
+ */
+export type ReleaseSlot = () => void;
+
+/**
+ * A request waiting for a free slot
+ */
+interface QueuedRequest {
+  type: ProviderType;
+  priority: RequestPriority;
+  /** Arrival order, so equal priorities run first come, first served */
+  order: number;
+  notePath?: string;
+  start: () => void;
+  cancel: (error: Error) => void;
+}
+
+/**
+ * Shared queue for every request muses and whispers send, so they don't
+ * compete for a backend. Each provider type runs at most its concurrency
+ * limit of requests at once; the rest wait, and the most urgent waiting
+ * request gets the next free slot.
+ */
+export class RequestScheduler {
+  private getLimit: (type: ProviderType) => number;
+  private running: Map<ProviderType, number> = new Map();
+  private queue: QueuedRequest[] = [];
+  private nextOrder: number = 0;
+
+  /**
+   * @param getLimit Most requests a provider type may run at once
+   */
+  constructor(getLimit: (type: ProviderType) => number) {
+    this.getLimit = getLimit;
+  }
+
+  /**
+   * Wait for a free slot on a provider. Rejects with an abort error if the
+   * signal fires or the request is dropped while waiting.
+   * @param notePath The note the request is about, see dropQueued
+   * @returns A function to call when the request is done
+   */
+  acquire(
+    type: ProviderType,
+    priority: RequestPriority,
+    signal?: AbortSignal,
+    notePath?: string
+  ): Promise<ReleaseSlot> {
+    throwIfAborted(signal);
+
+    if (this.getRunning(type) < this.getMaxRunning(type)) {
+      return Promise.resolve(this.take(type));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.remove(request);
+        request.cancel(createAbortError());
+      };
+
+      const request: QueuedRequest = {
+        type,
+        priority,
+        order: this.nextOrder++,
+        notePath,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(this.take(type));
+        },
+        cancel: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      this.queue.push(request);
+    });
+  }
+
+  /**
+   * Drop every waiting request of a priority, e.g. whispers about a
+   * version of a note that has since changed
+   * @param notePath Only drop requests about this note
+   * @returns How many requests were dropped
+   */
+  dropQueued(priority: RequestPriority, notePath?: string): number {
+    const dropped = this.queue.filter(
+      (request) => request.priority === priority && (notePath === undefined || request.notePath === notePath)
+    );
+    if (dropped.length === 0) {
+      return 0;
+    }
+
+    this.queue = this.queue.filter((request) => dropped.indexOf(request) === -1);
+    for (const request of dropped) {
+      request.cancel(createAbortError());
+    }
+    return dropped.length;
+  }
+
+  /**
+   * Get how many requests are waiting for a slot
+   */
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Take a slot on a provider
+   */
+  private take(type: ProviderType): ReleaseSlot {
+    this.running.set(type, this.getRunning(type) + 1);
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.running.set(type, this.getRunning(type) - 1);
+      this.startNext(type);
+    };
+  }
+
+  /**
+   * Start the most urgent waiting requests for a provider while it has free slots
+   */
+  private startNext(type: ProviderType): void {
+    while (this.getRunning(type) < this.getMaxRunning(type)) {
+      let next: QueuedRequest | null = null;
+      for (const request of this.queue) {
+        if (
+          request.type === type &&
+          (!next ||
+            PRIORITY_RANK[request.priority] < PRIORITY_RANK[next.priority] ||
+            (request.priority === next.priority && request.order < next.order))
+        ) {
+          next = request;
+        }
+      }
+
+      if (!next) {
+        return;
+      }
+
+      this.remove(next);
+      next.start();
+    }
+  }
+
+  /**
+   * Remove a request from the queue
+   */
+  private remove(request: QueuedRequest): void {
+    const index = this.queue.indexOf(request);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+  }
+
+  /**
+   * Get how many requests a provider is running
+   */
+  private getRunning(type: ProviderType): number {
+    return this.running.get(type) ?? 0;
+  }
+
+  /**
+   * Get a provider's concurrency limit, at least one
+   */
+  private getMaxRunning(type: ProviderType): number {
+    return Math.max(1, Math.floor(this.getLimit(type) || 1));
+  }
+}
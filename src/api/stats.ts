@@ -0,0 +1,77 @@
+import { DeveloperStats } from '../types';
+
+/**
+ * Token usage and timing reported for a single response
+ */
+export interface TokenUsage {
+  /** Prompt tokens processed normally, not counting cache reads and writes */
+  inputTokens: number;
+  outputTokens: number;
+  /** Prompt tokens read from the provider's prompt cache */
+  cacheReadTokens?: number;
+  /** Prompt tokens written to the provider's prompt cache */
+  cacheWriteTokens?: number;
+  /** Wall-clock time of the whole request */
+  durationMs: number;
+  /** Time spent generating output, when the backend reports it */
+  generationMs?: number;
+  /** Time spent loading the model, when the backend reports it */
+  loadMs?: number;
+}
+
+/**
+ * Called with the model and usage of every completed response
+ */
+export type UsageListener = (model: string, usage: TokenUsage) => void;
+
+/**
+ * Create a zeroed stats object
+ */
+export function createEmptyStats(): DeveloperStats {
+  return {
+    tokensThisSession: 0,
+    tokensToday: 0,
+    inputTokensThisSession: 0,
+    outputTokensThisSession: 0,
+    lastResponseTime: 0,
+    lastTokensPerSecond: 0,
+    lastLoadTime: 0,
+    cacheReadTokensThisSession: 0,
+    cacheWriteTokensThisSession: 0,
+    lastCacheReadTokens: 0,
+    lastCacheWriteTokens: 0,
+    responseCacheHitsThisSession: 0,
+    currentContextSize: 0,
+  };
+}
+
+/**
+ * Add a response's usage to running stats
+ */
+export function recordUsage(stats: DeveloperStats, usage: TokenUsage): void {
+  const cacheReadTokens = usage.cacheReadTokens ?? 0;
+  const cacheWriteTokens = usage.cacheWriteTokens ?? 0;
+  const inputTokens = usage.inputTokens + cacheReadTokens + cacheWriteTokens;
+  const total = inputTokens + usage.outputTokens;
+  stats.tokensThisSession += total;
+  stats.tokensToday += total;
+  stats.inputTokensThisSession += inputTokens;
+  stats.outputTokensThisSession += usage.outputTokens;
+  stats.cacheReadTokensThisSession += cacheReadTokens;
+  stats.cacheWriteTokensThisSession += cacheWriteTokens;
+  stats.lastCacheReadTokens = cacheReadTokens;
+  stats.lastCacheWriteTokens = cacheWriteTokens;
+  stats.lastResponseTime = usage.durationMs;
+  stats.lastLoadTime = usage.loadMs ?? 0;
+
+  const generationMs = usage.generationMs ?? usage.durationMs;
+  stats.lastTokensPerSecond =
+    generationMs > 0 ? Math.round((usage.outputTokens / generationMs) * 1000 * 10) / 10 : 0;
+}
+
+/**
+ * Rough token estimate for backends that don't report usage
+ */
+export function estimateTokens(chars: number): number {
+  return Math.ceil(chars / 4);
+}
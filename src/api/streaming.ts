@@ -0,0 +1,126 @@
+/**
+ * A server-sent event
+ */
+export interface ServerSentEvent {
+  /** Event type, 'message' when the server doesn't name one */
+  event: string;
+  /** Data lines joined with newlines */
+  data: string;
+}
+
+/**
+ * Drop the carriage return a CRLF line ends with
+ */
+function stripCarriageReturn(line: string): string {
+  return line.endsWith('\r') ? line.slice(0, -1) : line;
+}
+
+/**
+ * Read a byte stream line by line. Partial lines are carried over to the
+ * next read, so a line split across network reads arrives whole.
+ */
+export async function readLines(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  onLine: (line: string) => void
+): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        onLine(stripCarriageReturn(line));
+      }
+    }
+
+    // The last line may not end with a newline
+    buffer += decoder.decode();
+    if (buffer) {
+      onLine(stripCarriageReturn(buffer));
+    }
+  } catch (error) {
+    // Stop the underlying request if a handler gave up on the stream
+    reader.cancel().catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Read a newline-delimited JSON stream, calling onValue for each object.
+ * Lines that aren't valid JSON are logged and skipped; errors thrown by
+ * onValue stop the stream and reject.
+ */
+export async function readNdjson<T>(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  onValue: (value: T) => void
+): Promise<void> {
+  await readLines(reader, (line) => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    let value: T;
+    try {
+      value = JSON.parse(trimmed) as T;
+    } catch {
+      console.warn('Skipping invalid JSON line in stream:', trimmed.slice(0, 200));
+      return;
+    }
+    onValue(value);
+  });
+}
+
+/**
+ * Read a server-sent events stream, calling onEvent for each complete event.
+ * Comments and retry/id fields are ignored.
+ */
+export async function readSse(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  let eventType = '';
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventType || 'message', data: dataLines.join('\n') });
+    }
+    eventType = '';
+    dataLines = [];
+  };
+
+  await readLines(reader, (line) => {
+    // A blank line ends the event
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    if (field === 'event') {
+      eventType = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  });
+
+  // Some servers close the stream without a trailing blank line
+  dispatch();
+}
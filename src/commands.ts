@@ -5,6 +5,7 @@ import { WhisperMode } from './modes/whisper';
 import { stowAllBlocks, revealAllBlocks } from './rendering/muse-decorator';
 import { removeAllEnchantments } from './utils/parser';
 import { Mood } from './types';
+import { MoodRegistry } from './moods';
 
 /**
  * Register all plugin commands
@@ -13,7 +14,8 @@ export function registerCommands(
   app: App,
   addCommand: (command: Command) => void,
   museMode: MuseMode,
-  whisperMode: WhisperMode
+  whisperMode: WhisperMode,
+  moods: MoodRegistry
 ): void {
   // Toggle Muse mode (mutually exclusive with Whisper)
   addCommand({
@@ -120,36 +122,6 @@ export function registerCommands(
     },
   });
 
-  // Set Mood - Reflect
-  addCommand({
-    id: 'set-mood-reflect',
-    name: 'Set Mood: Reflect',
-    callback: () => {
-      museMode.setMood('reflect');
-      whisperMode.setMood('reflect');
-    },
-  });
-
-  // Set Mood - Think
-  addCommand({
-    id: 'set-mood-think',
-    name: 'Set Mood: Think',
-    callback: () => {
-      museMode.setMood('think');
-      whisperMode.setMood('think');
-    },
-  });
-
-  // Set Mood - Plan
-  addCommand({
-    id: 'set-mood-plan',
-    name: 'Set Mood: Plan',
-    callback: () => {
-      museMode.setMood('plan');
-      whisperMode.setMood('plan');
-    },
-  });
-
   // Set Mood - Auto
   addCommand({
     id: 'set-mood-auto',
@@ -165,58 +137,46 @@ export function registerCommands(
     id: 'set-mood',
     name: 'Set Mood',
     callback: () => {
-      const moods: Array<{ mood: Mood | 'auto'; label: string }> = [
+      const choices: Array<{ mood: Mood | 'auto'; label: string }> = [
         { mood: 'auto', label: 'Auto-detect' },
-        { mood: 'reflect', label: 'Reflect (journaling)' },
-        { mood: 'think', label: 'Think (essays/ideas)' },
-        { mood: 'plan', label: 'Plan (todos/planning)' },
+        ...moods.getAll().map((mood) => ({ mood: mood.id, label: moods.getLabel(mood) })),
       ];
 
-      // Create a simple modal for mood selection
-      const modal = document.createElement('div');
-      modal.className = 'modal-container mod-dim';
-      modal.innerHTML = `
-        <div class="modal-bg" style="opacity: 0.85;"></div>
-        <div class="modal" style="width: 300px;">
-          <div class="modal-title">Set Mood</div>
-          <div class="modal-content" style="padding: 1em;">
-            ${moods
-              .map(
-                (m, i) => `
-              <button class="mod-cta" style="width: 100%; margin-bottom: 0.5em;" data-mood="${m.mood}">
-                ${m.label}
-              </button>
-            `
-              )
-              .join('')}
-          </div>
-        </div>
-      `;
-
-      document.body.appendChild(modal);
-
-      // Handle button clicks
-      modal.querySelectorAll('button').forEach((btn) => {
-        btn.addEventListener('click', () => {
-          const mood = btn.dataset.mood as Mood | 'auto';
-          museMode.setMood(mood);
-          whisperMode.setMood(mood);
-          modal.remove();
-        });
-      });
-
-      // Handle background click to close
-      modal.querySelector('.modal-bg')?.addEventListener('click', () => {
-        modal.remove();
-      });
+      // Create a simple modal for mood selection. Mood names are user-defined,
+      // so build it with DOM methods rather than HTML strings.
+      const modal = document.body.createDiv({ cls: 'modal-container mod-dim' });
+      const background = modal.createDiv({ cls: 'modal-bg', attr: { style: 'opacity: 0.85;' } });
+      const dialog = modal.createDiv({ cls: 'modal', attr: { style: 'width: 300px;' } });
+      dialog.createDiv({ cls: 'modal-title', text: 'Set Mood' });
+      const content = dialog.createDiv({ cls: 'modal-content', attr: { style: 'padding: 1em;' } });
 
       // Handle Escape key
       const handleEscape = (e: KeyboardEvent) => {
         if (e.key === 'Escape') {
-          modal.remove();
-          document.removeEventListener('keydown', handleEscape);
+          close();
         }
       };
+      const close = () => {
+        modal.remove();
+        document.removeEventListener('keydown', handleEscape);
+      };
+
+      // Handle button clicks
+      for (const choice of choices) {
+        const button = content.createEl('button', {
+          cls: 'mod-cta',
+          text: choice.label,
+          attr: { style: 'width: 100%; margin-bottom: 0.5em;' },
+        });
+        button.addEventListener('click', () => {
+          museMode.setMood(choice.mood);
+          whisperMode.setMood(choice.mood);
+          close();
+        });
+      }
+
+      // Handle background click to close
+      background.addEventListener('click', close);
       document.addEventListener('keydown', handleEscape);
     },
   });
@@ -239,6 +199,24 @@ export function registerCommands(
     },
   });
 
+  // Stop Muse
+  addCommand({
+    id: 'stop-muse',
+    name: 'Stop Muse',
+    checkCallback: (checking: boolean) => {
+      if (!museMode.isBusy()) {
+        return false;
+      }
+
+      if (!checking) {
+        museMode.cancel();
+        new Notice('Muse stopped');
+      }
+
+      return true;
+    },
+  });
+
   // Clear Whispers
   addCommand({
     id: 'clear-whispers',
@@ -257,3 +235,27 @@ export function registerCommands(
     },
   });
 }
+
+/**
+ * Register a "Set Mood" command for each mood in the registry
+ * @returns The IDs of the commands added, to remove when the moods change
+ */
+export function registerMoodCommands(
+  addCommand: (command: Command) => void,
+  museMode: MuseMode,
+  whisperMode: WhisperMode,
+  moods: MoodRegistry
+): string[] {
+  return moods.getAll().map((mood) => {
+    const id = `set-mood-${mood.id}`;
+    addCommand({
+      id,
+      name: `Set Mood: ${mood.name}`,
+      callback: () => {
+        museMode.setMood(mood.id);
+        whisperMode.setMood(mood.id);
+      },
+    });
+    return id;
+  });
+}
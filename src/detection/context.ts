@@ -1,6 +1,10 @@
-import { App, TFile } from 'obsidian';
+import { App, TFile, getAllTags, moment } from 'obsidian';
 import { Mood, InteractionStyle, EnchantedNotesSettings } from '../types';
-import { getEnchantmentFrontmatter, inferMoodFromType } from '../utils/frontmatter';
+import { EnchantmentFrontmatter, getEnchantmentFrontmatter } from '../utils/frontmatter';
+import { TemplateVariables } from '../utils/template';
+import { MoodRegistry, parsePromptNote } from '../moods';
+import { getCleanContent } from '../utils/parser';
+import { detectLanguage, getLanguageName } from './language';
 
 /**
  * Detected context for a note
@@ -9,114 +13,10 @@ export interface DetectedContext {
   mood: Mood;
   style: InteractionStyle;
   source: 'frontmatter' | 'folder' | 'content' | 'default';
-}
-
-/**
- * Folder patterns that suggest a mood
- */
-const FOLDER_MOOD_PATTERNS: Record<string, Mood> = {
-  journal: 'reflect',
-  journals: 'reflect',
-  diary: 'reflect',
-  diaries: 'reflect',
-  reflection: 'reflect',
-  reflections: 'reflect',
-  project: 'plan',
-  projects: 'plan',
-  todo: 'plan',
-  todos: 'plan',
-  task: 'plan',
-  tasks: 'plan',
-  planning: 'plan',
-  essay: 'think',
-  essays: 'think',
-  writing: 'think',
-  writings: 'think',
-  idea: 'think',
-  ideas: 'think',
-  article: 'think',
-  articles: 'think',
-};
-
-/**
- * Content patterns that suggest a mood (regex patterns)
- */
-const CONTENT_PATTERNS: Array<{ pattern: RegExp; mood: Mood }> = [
-  // Reflect patterns
-  { pattern: /\bI feel\b/i, mood: 'reflect' },
-  { pattern: /\bI felt\b/i, mood: 'reflect' },
-  { pattern: /\bToday I\b/i, mood: 'reflect' },
-  { pattern: /\bI'm feeling\b/i, mood: 'reflect' },
-  { pattern: /\bI've been feeling\b/i, mood: 'reflect' },
-  { pattern: /\bI noticed\b/i, mood: 'reflect' },
-  { pattern: /\bI'm grateful\b/i, mood: 'reflect' },
-  { pattern: /\bI'm struggling\b/i, mood: 'reflect' },
-
-  // Plan patterns (checkboxes)
-  { pattern: /^- \[ \]/m, mood: 'plan' },
-  { pattern: /^- \[x\]/im, mood: 'plan' },
-  { pattern: /\bTODO\b/i, mood: 'plan' },
-  { pattern: /\bnext steps\b/i, mood: 'plan' },
-  { pattern: /\baction items\b/i, mood: 'plan' },
-  { pattern: /\bdeadline\b/i, mood: 'plan' },
-
-  // Think patterns
-  { pattern: /\bthe argument is\b/i, mood: 'think' },
-  { pattern: /\bmy thesis\b/i, mood: 'think' },
-  { pattern: /\bI argue\b/i, mood: 'think' },
-  { pattern: /\bI believe\b/i, mood: 'think' },
-  { pattern: /\bthe evidence\b/i, mood: 'think' },
-  { pattern: /\bthe reason\b/i, mood: 'think' },
-  { pattern: /\bin conclusion\b/i, mood: 'think' },
-  { pattern: /\bfurthermore\b/i, mood: 'think' },
-  { pattern: /\bhowever\b/i, mood: 'think' },
-];
-
-/**
- * Detect mood from folder path
- */
-function detectMoodFromFolder(filePath: string): Mood | null {
-  const pathParts = filePath.toLowerCase().split('/');
-
-  for (const part of pathParts) {
-    if (FOLDER_MOOD_PATTERNS[part]) {
-      return FOLDER_MOOD_PATTERNS[part];
-    }
-  }
-
-  return null;
-}
-
-/**
- * Detect mood from content patterns
- */
-function detectMoodFromContent(content: string): Mood | null {
-  const moodCounts: Record<Mood, number> = {
-    reflect: 0,
-    think: 0,
-    plan: 0,
-  };
-
-  for (const { pattern, mood } of CONTENT_PATTERNS) {
-    const matches = content.match(new RegExp(pattern, 'g'));
-    if (matches) {
-      moodCounts[mood] += matches.length;
-    }
-  }
-
-  // Find the mood with the most matches
-  let maxMood: Mood | null = null;
-  let maxCount = 0;
-
-  for (const [mood, count] of Object.entries(moodCounts)) {
-    if (count > maxCount) {
-      maxCount = count;
-      maxMood = mood as Mood;
-    }
-  }
-
-  // Only return if we have meaningful matches (at least 2)
-  return maxCount >= 2 ? maxMood : null;
+  persona?: string; // enchant-persona
+  promptLink?: string; // enchant-prompt, a link path to resolve from the note
+  model?: string; // enchant-model
+  language?: string; // name of the language to respond in
 }
 
 /**
@@ -128,64 +28,146 @@ function detectMoodFromContent(content: string): Mood | null {
  * 3. Folder conventions: /journal/ → reflect
  * 4. Content inference: "I feel..." → reflect
  * 5. Default settings
+ *
+ * Types, folders and content keywords come from each mood in the registry.
+ * The note's enchant-persona, enchant-prompt and enchant-model are carried
+ * along whichever way the mood was found.
  */
 export function detectContext(
   app: App,
   file: TFile,
   content: string,
-  settings: EnchantedNotesSettings
+  settings: EnchantedNotesSettings,
+  moods: MoodRegistry
 ): DetectedContext {
-  // 1. Check explicit frontmatter
   const frontmatter = getEnchantmentFrontmatter(app, file);
+  return {
+    ...detectMood(file, content, settings, moods, frontmatter),
+    persona: frontmatter.persona,
+    promptLink: frontmatter.prompt,
+    model: frontmatter.model,
+    language: detectNoteLanguage(content, settings, frontmatter),
+  };
+}
 
-  if (frontmatter.mood) {
-    return {
-      mood: frontmatter.mood,
-      style: frontmatter.style || (settings.defaultStyle === 'off' ? 'muse' : settings.defaultStyle),
-      source: 'frontmatter',
-    };
+/**
+ * Pick the language to respond in: enchant-language, then the language the
+ * note is written in, then the default language
+ */
+function detectNoteLanguage(
+  content: string,
+  settings: EnchantedNotesSettings,
+  frontmatter: EnchantmentFrontmatter
+): string | undefined {
+  if (frontmatter.language) {
+    return getLanguageName(frontmatter.language);
+  }
+
+  const detected = settings.detectLanguage ? detectLanguage(getCleanContent(content)) : null;
+  const language = detected ?? settings.defaultLanguage;
+  return language ? getLanguageName(language) : undefined;
+}
+
+/**
+ * Pick the mood and style for a note, see detectContext
+ */
+function detectMood(
+  file: TFile,
+  content: string,
+  settings: EnchantedNotesSettings,
+  moods: MoodRegistry,
+  frontmatter: EnchantmentFrontmatter
+): DetectedContext {
+  // 1. Check explicit frontmatter
+  const style = frontmatter.style || (settings.defaultStyle === 'off' ? 'muse' : settings.defaultStyle);
+
+  const explicitMood = frontmatter.mood ? moods.find(frontmatter.mood) : null;
+  if (explicitMood) {
+    return { mood: explicitMood.id, style, source: 'frontmatter' };
   }
 
   // 2. Check frontmatter type tag
-  if (frontmatter.type) {
-    const inferredMood = inferMoodFromType(frontmatter.type);
-    if (inferredMood) {
-      return {
-        mood: inferredMood,
-        style: frontmatter.style || (settings.defaultStyle === 'off' ? 'muse' : settings.defaultStyle),
-        source: 'frontmatter',
-      };
-    }
+  const typeMood = frontmatter.type ? moods.findByType(frontmatter.type) : null;
+  if (typeMood) {
+    return { mood: typeMood.id, style, source: 'frontmatter' };
   }
 
   // 3. Check folder conventions
-  const folderMood = detectMoodFromFolder(file.path);
+  const folderMood = moods.findByFolder(file.path);
   if (folderMood) {
-    return {
-      mood: folderMood,
-      style: frontmatter.style || (settings.defaultStyle === 'off' ? 'muse' : settings.defaultStyle),
-      source: 'folder',
-    };
+    return { mood: folderMood.id, style, source: 'folder' };
   }
 
   // 4. Content inference
-  const contentMood = detectMoodFromContent(content);
+  const contentMood = moods.detectFromContent(content);
   if (contentMood) {
-    return {
-      mood: contentMood,
-      style: frontmatter.style || (settings.defaultStyle === 'off' ? 'muse' : settings.defaultStyle),
-      source: 'content',
-    };
+    return { mood: contentMood.id, style, source: 'content' };
   }
 
   // 5. Default settings
   return {
-    mood: settings.defaultMood === 'auto' ? 'reflect' : settings.defaultMood,
+    mood: moods.resolve(settings.defaultMood === 'auto' ? '' : settings.defaultMood).id,
     style: settings.defaultStyle === 'off' ? 'muse' : settings.defaultStyle,
     source: 'default',
   };
 }
 
+/**
+ * Read the prompt for a style from the note an enchant-prompt links to.
+ * Prompt notes are written like mood notes; without a section for the
+ * style, the mood's own prompt is used.
+ */
+export async function getPromptNoteContent(
+  app: App,
+  file: TFile,
+  link: string,
+  style: InteractionStyle
+): Promise<string | undefined> {
+  const promptFile = app.metadataCache.getFirstLinkpathDest(link, file.path);
+  if (!promptFile) {
+    console.warn(`Prompt note not found: ${link}`);
+    return undefined;
+  }
+
+  try {
+    const sections = parsePromptNote(await app.vault.cachedRead(promptFile));
+    return sections[style] || undefined;
+  } catch (e) {
+    console.warn(`Couldn't read prompt note: ${promptFile.path}`);
+    return undefined;
+  }
+}
+
+/**
+ * Get the variables mood prompts can use for a note: {{note.title}},
+ * {{note.folder}}, {{frontmatter.<key>}}, {{tags}}, {{date}}, {{weekday}}
+ * and {{user.name}}. Without a note, only the date and user are set.
+ */
+export function getPromptVariables(
+  app: App,
+  file: TFile | null,
+  settings: EnchantedNotesSettings
+): TemplateVariables {
+  const now = moment();
+  const cache = file ? app.metadataCache.getFileCache(file) : null;
+  const tags = cache ? getAllTags(cache) ?? [] : [];
+  const folder = file?.parent?.path ?? '';
+
+  return {
+    note: {
+      title: file?.basename ?? '',
+      path: file?.path ?? '',
+      folder: folder === '/' ? '' : folder,
+    },
+    frontmatter: cache?.frontmatter ?? {},
+    tags: tags.filter((tag, i) => tags.indexOf(tag) === i),
+    date: now.format('YYYY-MM-DD'),
+    time: now.format('HH:mm'),
+    weekday: now.format('dddd'),
+    user: { name: settings.userName.trim() },
+  };
+}
+
 /**
  * Get linked notes content for context
  */
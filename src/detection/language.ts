@@ -0,0 +1,182 @@
+/**
+ * Languages that can be detected or picked as the default, by ISO 639-1 code
+ */
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  sv: 'Swedish',
+  pl: 'Polish',
+  tr: 'Turkish',
+  ru: 'Russian',
+  uk: 'Ukrainian',
+  el: 'Greek',
+  ar: 'Arabic',
+  he: 'Hebrew',
+  hi: 'Hindi',
+  th: 'Thai',
+  ja: 'Japanese',
+  zh: 'Chinese',
+  ko: 'Korean',
+};
+
+/**
+ * The language the mood prompts are written in, which needs no instruction
+ */
+export const PROMPT_LANGUAGE = 'en';
+
+/**
+ * Common short words of the languages written in Latin script, which tell
+ * them apart better than letters do
+ */
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'was', 'i', 'you', 'it', 'of', 'to', 'in', 'that', 'this', 'with', 'for', 'not', 'have', 'my', 'but', 'what'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'ein', 'eine', 'zu', 'mit', 'auf', 'sich', 'auch', 'es', 'den', 'von', 'wie', 'mir', 'heute'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'je', 'pas', 'une', 'des', 'du', 'que', 'qui', 'dans', 'pour', 'ce', 'il', 'sur', 'avec', 'mais', 'très'],
+  es: ['el', 'los', 'las', 'y', 'es', 'que', 'una', 'del', 'por', 'para', 'con', 'pero', 'muy', 'yo', 'mi', 'hoy', 'está', 'como', 'se', 'lo'],
+  it: ['il', 'gli', 'e', 'è', 'che', 'di', 'una', 'per', 'con', 'non', 'sono', 'mi', 'ho', 'della', 'anche', 'oggi', 'molto', 'questo', 'ma', 'un'],
+  pt: ['o', 'os', 'e', 'é', 'que', 'um', 'uma', 'não', 'com', 'para', 'por', 'eu', 'meu', 'hoje', 'muito', 'mas', 'do', 'da', 'está', 'em'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'niet', 'ik', 'van', 'dat', 'op', 'met', 'voor', 'zijn', 'maar', 'ook', 'vandaag', 'heb', 'wat', 'je', 'er'],
+  sv: ['och', 'att', 'det', 'är', 'jag', 'inte', 'en', 'som', 'på', 'med', 'för', 'har', 'av', 'men', 'idag', 'mycket', 'om', 'till', 'vi', 'var'],
+  pl: ['i', 'w', 'nie', 'się', 'na', 'to', 'że', 'jest', 'jak', 'ale', 'z', 'do', 'co', 'mnie', 'jestem', 'dzisiaj', 'bardzo', 'tak', 'już', 'czy'],
+  tr: ['ve', 'bir', 'bu', 'için', 'ile', 'çok', 'ben', 'ne', 'da', 'de', 'mi', 'gibi', 'ama', 'bugün', 'daha', 'olarak', 'var', 'yok', 'şey', 'değil'],
+};
+
+/**
+ * Scripts that mostly belong to one language
+ */
+const SCRIPTS: Array<{ language: string; pattern: RegExp }> = [
+  { language: 'ja', pattern: /[\u3040-\u30ff]/g }, // hiragana and katakana
+  { language: 'ko', pattern: /[\uac00-\ud7af\u1100-\u11ff]/g },
+  { language: 'zh', pattern: /[\u4e00-\u9fff]/g }, // also in Japanese, see detectLanguage
+  { language: 'ru', pattern: /[\u0400-\u04ff]/g },
+  { language: 'el', pattern: /[\u0370-\u03ff]/g },
+  { language: 'ar', pattern: /[\u0600-\u06ff]/g },
+  { language: 'he', pattern: /[\u0590-\u05ff]/g },
+  { language: 'hi', pattern: /[\u0900-\u097f]/g },
+  { language: 'th', pattern: /[\u0e00-\u0e7f]/g },
+];
+
+const LATIN_PATTERN = /[a-z\u00c0-\u024f]/gi;
+const WORD_PATTERN = /[a-z\u00c0-\u024f']+/g;
+
+/**
+ * Text needed before a language is reported. Short notes use the default
+ * language instead, so a note's language (and with it the system prompt and
+ * its caches) doesn't flip back and forth while the first lines are written.
+ */
+const MIN_LETTERS = 100;
+const MIN_CJK_CHARACTERS = 25;
+const MIN_STOPWORDS = 4;
+
+/**
+ * Leave out what isn't prose: frontmatter, code, links and URLs
+ */
+function stripNonProse(text: string): string {
+  return text
+    .replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, '')
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/`[^`\n]*`/g, '')
+    .replace(/\[\[[^\]]*\]\]/g, '')
+    .replace(/https?:\/\/\S+/g, '');
+}
+
+/**
+ * Count the matches of a pattern in some text
+ */
+function count(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * Guess the language a note is written in
+ * @param text The note content, without enchantments
+ * @returns An ISO 639-1 code, or null if the text is too short or unclear
+ */
+export function detectLanguage(text: string): string | null {
+  const prose = stripNonProse(text);
+  const latin = count(prose, LATIN_PATTERN);
+
+  // Find the script with the most letters
+  let script: string | null = null;
+  let scriptLetters = 0;
+  const letters: Record<string, number> = {};
+  for (const { language, pattern } of SCRIPTS) {
+    letters[language] = count(prose, pattern);
+    if (letters[language] > scriptLetters) {
+      script = language;
+      scriptLetters = letters[language];
+    }
+  }
+
+  // Japanese mixes kana with Chinese characters
+  const japanese = letters['ja'] + letters['zh'];
+  if (letters['ja'] > 0 && japanese > latin) {
+    return japanese >= MIN_CJK_CHARACTERS ? 'ja' : null;
+  }
+
+  if (script && scriptLetters > latin) {
+    // CJK characters carry more per character than alphabets
+    const minimum = script === 'zh' || script === 'ko' ? MIN_CJK_CHARACTERS : MIN_LETTERS;
+    if (scriptLetters < minimum) {
+      return null;
+    }
+    // Cyrillic with the letters only Ukrainian uses
+    if (script === 'ru' && count(prose, /[іїєґ]/gi) >= 2) {
+      return 'uk';
+    }
+    return script;
+  }
+
+  if (latin < MIN_LETTERS) {
+    return null;
+  }
+
+  // Score Latin-script languages by their common words
+  const words = prose.toLowerCase().match(WORD_PATTERN) ?? [];
+  let best: string | null = null;
+  let bestScore = 0;
+  let secondScore = 0;
+  for (const language of Object.keys(STOPWORDS)) {
+    const stopwords = STOPWORDS[language];
+    const score = words.filter((word) => stopwords.indexOf(word) !== -1).length;
+    if (score > bestScore) {
+      secondScore = bestScore;
+      best = language;
+      bestScore = score;
+    } else if (score > secondScore) {
+      secondScore = score;
+    }
+  }
+
+  // Too few common words, or two languages too close to call
+  if (bestScore < MIN_STOPWORDS || bestScore < secondScore * 1.25) {
+    return null;
+  }
+  return best;
+}
+
+/**
+ * Find the code for a language given as a code or an English name, e.g.
+ * from enchant-language
+ */
+export function getLanguageCode(value: string): string | null {
+  const language = value.trim().toLowerCase();
+  if (Object.prototype.hasOwnProperty.call(LANGUAGE_NAMES, language)) {
+    return language;
+  }
+  return Object.keys(LANGUAGE_NAMES).find((code) => LANGUAGE_NAMES[code].toLowerCase() === language) ?? null;
+}
+
+/**
+ * Get the name to put in prompts for a language code or name. Languages
+ * the plugin doesn't know are passed through, so any language can be asked for.
+ */
+export function getLanguageName(value: string): string {
+  const code = getLanguageCode(value);
+  return code ? LANGUAGE_NAMES[code] : value.trim();
+}
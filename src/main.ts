@@ -1,26 +1,62 @@
-import { App, Plugin, MarkdownView } from 'obsidian';
+import { App, Plugin, MarkdownView, Notice, debounce, editorInfoField, normalizePath } from 'obsidian';
 import { Extension } from '@codemirror/state';
-import { ViewPlugin, ViewUpdate } from '@codemirror/view';
+import { ViewPlugin, ViewUpdate, keymap } from '@codemirror/view';
 
-import { EnchantedNotesSettings, DEFAULT_SETTINGS, DeveloperStats, ProviderType } from './types';
+import { EnchantedNotesSettings, DEFAULT_SETTINGS, DeveloperStats, ProviderType, UsageRow } from './types';
 import { EnchantedNotesSettingTab } from './settings';
 import { LLMProvider } from './api/provider';
-import { ClaudeProvider } from './api/claude';
-import { OllamaProvider } from './api/ollama';
+import { ClaudeModelInfo, ClaudeProvider } from './api/claude';
+import { OllamaModelDetails, OllamaProvider, OllamaPullProgress } from './api/ollama';
+import { OpenAICompatibleProvider } from './api/openai';
+import {
+  MockFixture,
+  MockFixtureStore,
+  MockProvider,
+  MockProviderOptions,
+  createEmptyFixture,
+} from './api/mock';
+import { ProviderRouter } from './api/router';
+import { TokenUsage, createEmptyStats } from './api/stats';
+import { UsageLedger } from './api/ledger';
+import { ConnectionDiagnostics } from './api/diagnostics';
+import { RequestScheduler } from './api/scheduler';
+import { ResponseCache, ResponseCacheData, ResponseCacheStore, createEmptyCache } from './api/cache';
+import { resolveClaudeApiKey } from './utils/secrets';
+import { getErrorMessage } from './api/errors';
 import { MuseMode } from './modes/muse';
 import { WhisperMode } from './modes/whisper';
-import { registerCommands } from './commands';
+import { registerCommands, registerMoodCommands } from './commands';
+import { MoodRegistry, isInMoodFolder, loadVaultMoods } from './moods';
 import { createMuseDecorator, clearStowedState } from './rendering/muse-decorator';
 import { createWhisperWidget } from './rendering/whisper-widget';
 
+/**
+ * CodeMirror user events for edits made by the user: typing, deleting,
+ * pasting, dragging text, undo and redo
+ */
+const USER_EDIT_EVENTS = ['input', 'delete', 'move', 'undo', 'redo'];
+
 export default class EnchantedNotesPlugin extends Plugin {
   settings: EnchantedNotesSettings = DEFAULT_SETTINGS;
-  provider: LLMProvider | null = null;
+  router: ProviderRouter | null = null;
+  responseCache: ResponseCache | null = null;
+  moods: MoodRegistry = new MoodRegistry([]);
+  ledger: UsageLedger = new UsageLedger([], () => this.settings.modelPrices);
+  // Muses and whispers share one queue, so a whisper can't crowd out a muse
+  private scheduler: RequestScheduler = new RequestScheduler(
+    (type) => this.settings.providerConcurrency[type] ?? DEFAULT_SETTINGS.providerConcurrency[type]
+  );
   private claudeProvider: ClaudeProvider | null = null;
   private ollamaProvider: OllamaProvider | null = null;
+  private openaiProvider: OpenAICompatibleProvider | null = null;
+  private mockProvider: MockProvider | null = null;
   private museMode: MuseMode | null = null;
   private whisperMode: WhisperMode | null = null;
   private editorExtensions: Extension[] = [];
+  private moodCommandIds: string[] = [];
+
+  // Usage is recorded after every response, so batch the writes to disk
+  private requestSave = debounce(() => this.saveSettings(), 2000, true);
 
   async onload(): Promise<void> {
     console.log('Loading Enchanted Notes plugin');
@@ -32,8 +68,9 @@ export default class EnchantedNotesPlugin extends Plugin {
     this.initializeProviders();
 
     // Initialize modes
-    this.museMode = new MuseMode(this.app, this.provider!, this.settings);
-    this.whisperMode = new WhisperMode(this.app, this.provider!, this.settings);
+    this.moods.setMoods(this.settings.moods);
+    this.museMode = new MuseMode(this.app, this.router!, this.settings, this.moods);
+    this.whisperMode = new WhisperMode(this.app, this.router!, this.settings, this.moods);
 
     // Enable modes based on default settings
     if (this.settings.defaultStyle === 'muse') {
@@ -43,7 +80,17 @@ export default class EnchantedNotesPlugin extends Plugin {
     }
 
     // Register commands
-    registerCommands(this.app, (cmd) => this.addCommand(cmd), this.museMode, this.whisperMode);
+    registerCommands(this.app, (cmd) => this.addCommand(cmd), this.museMode, this.whisperMode, this.moods);
+    this.registerMoodCommands();
+    this.watchMoodNotes();
+
+    // Stop in-flight generations when the user moves to another note
+    this.registerEvent(
+      this.app.workspace.on('file-open', () => {
+        this.museMode?.cancel();
+        this.whisperMode?.cancel();
+      })
+    );
 
     // Add settings tab
     this.addSettingTab(new EnchantedNotesSettingTab(this.app, this));
@@ -53,6 +100,20 @@ export default class EnchantedNotesPlugin extends Plugin {
 
     // Add status bar item
     this.setupStatusBar();
+
+    // Catch retired Claude models before the first muse fails
+    if (this.usesProvider('claude') && this.claudeProvider?.isConfigured()) {
+      this.app.workspace.onLayoutReady(() => this.checkClaudeModel());
+    }
+
+    // Preload the Ollama model so the first muse doesn't wait for a cold start
+    if (this.settings.ollamaWarmUpOnStartup && this.usesProvider('ollama')) {
+      this.app.workspace.onLayoutReady(() => {
+        this.warmUpOllama().catch((error) => {
+          console.warn('Ollama warm-up failed:', getErrorMessage(error));
+        });
+      });
+    }
   }
 
   /**
@@ -61,7 +122,7 @@ export default class EnchantedNotesPlugin extends Plugin {
   private initializeProviders(): void {
     // Initialize Claude provider
     this.claudeProvider = new ClaudeProvider(
-      this.settings.claudeApiKey,
+      resolveClaudeApiKey(this.app, this.settings),
       this.settings.claudeModel
     );
 
@@ -70,44 +131,224 @@ export default class EnchantedNotesPlugin extends Plugin {
       this.settings.ollamaBaseUrl,
       this.settings.ollamaModel
     );
+    this.ollamaProvider.setKeepAlive(this.settings.ollamaKeepAlive);
+
+    // Initialize OpenAI-compatible provider
+    this.openaiProvider = new OpenAICompatibleProvider(
+      this.settings.openaiBaseUrl,
+      this.settings.openaiApiKey,
+      this.settings.openaiModel
+    );
 
-    // Set active provider based on settings
-    this.provider =
-      this.settings.provider === 'claude' ? this.claudeProvider : this.ollamaProvider;
+    // Initialize the record/replay mock provider
+    this.mockProvider = new MockProvider(this.createFixtureStore(), this.getMockOptions());
+
+    // Record every response in the usage ledger
+    this.claudeProvider.setUsageListener((model, usage) => this.recordUsage('claude', model, usage));
+    this.ollamaProvider.setUsageListener((model, usage) => this.recordUsage('ollama', model, usage));
+    this.openaiProvider.setUsageListener((model, usage) => this.recordUsage('openai', model, usage));
+
+    // Route requests to the primary provider, routing rules and fallbacks
+    this.router = new ProviderRouter((type) => this.getProviderForType(type), this.settings);
+    this.router.setRequestGuard(() => this.ledger.checkCaps(this.settings));
+    this.router.setScheduler(this.scheduler);
+
+    // Answer repeated requests from the response cache
+    this.responseCache = new ResponseCache(this.createResponseCacheStore(), () => ({
+      enabled: this.settings.responseCacheEnabled,
+      ttlMs: this.settings.responseCacheTtlHours * 60 * 60 * 1000,
+      maxEntries: this.settings.responseCacheMaxEntries,
+      getModel: (type) => this.getModelForType(type),
+    }));
+    this.router.setResponseCache(this.responseCache);
+  }
+
+  /**
+   * Get the model a provider is configured to use
+   */
+  private getModelForType(providerType: ProviderType): string {
+    switch (providerType) {
+      case 'claude':
+        return this.settings.claudeModel;
+      case 'ollama':
+        return this.settings.ollamaModel;
+      case 'openai':
+        return this.settings.openaiModel;
+      case 'mock':
+        return 'mock';
+    }
+  }
+
+  /**
+   * Mock provider options from settings
+   */
+  private getMockOptions(): MockProviderOptions {
+    return {
+      mode: this.settings.mockMode,
+      chunkDelayMs: this.settings.mockChunkDelayMs,
+      simulatedError: this.settings.mockSimulatedError,
+      getRecordProvider: () =>
+        this.settings.mockRecordProvider === 'mock'
+          ? null
+          : this.getProviderForType(this.settings.mockRecordProvider),
+    };
+  }
+
+  /**
+   * Read and write the mock provider's fixture file in the vault
+   */
+  private createFixtureStore(): MockFixtureStore {
+    const adapter = this.app.vault.adapter;
+    const getPath = () => normalizePath(this.settings.mockFixturePath);
+
+    return {
+      load: async () => {
+        const path = getPath();
+        if (!(await adapter.exists(path))) {
+          return createEmptyFixture();
+        }
+        return JSON.parse(await adapter.read(path)) as MockFixture;
+      },
+      save: async (fixture) => {
+        const path = getPath();
+        const folder = path.substring(0, path.lastIndexOf('/'));
+        if (folder && !(await adapter.exists(folder))) {
+          await adapter.mkdir(folder);
+        }
+        await adapter.write(path, JSON.stringify(fixture, null, 2));
+      },
+    };
+  }
+
+  /**
+   * Read and write the response cache file in the plugin folder, which
+   * stays out of data.json so settings saves stay small
+   */
+  private createResponseCacheStore(): ResponseCacheStore {
+    const adapter = this.app.vault.adapter;
+    const folder = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    const path = normalizePath(`${folder}/response-cache.json`);
+
+    return {
+      load: async () => {
+        if (!(await adapter.exists(path))) {
+          return createEmptyCache();
+        }
+        return JSON.parse(await adapter.read(path)) as ResponseCacheData;
+      },
+      save: async (data) => {
+        await adapter.write(path, JSON.stringify(data));
+      },
+    };
+  }
+
+  /**
+   * Add a response to the usage ledger, pausing Muse and Whisper if it used up a spending cap
+   */
+  private recordUsage(provider: ProviderType, model: string, usage: TokenUsage): void {
+    this.ledger.record(provider, model, usage);
+    this.requestSave();
+
+    const capMessage = this.ledger.getCapMessage(this.settings);
+    if (capMessage && (this.museMode?.isEnabled() || this.whisperMode?.isEnabled())) {
+      this.museMode?.disable(false);
+      this.whisperMode?.disable(false);
+      new Notice(capMessage, 10000);
+    }
+  }
+
+  /**
+   * Get the provider instance for a provider type
+   */
+  private getProviderForType(providerType: ProviderType): LLMProvider | null {
+    switch (providerType) {
+      case 'claude':
+        return this.claudeProvider;
+      case 'ollama':
+        return this.ollamaProvider;
+      case 'openai':
+        return this.openaiProvider;
+      case 'mock':
+        return this.mockProvider;
+    }
   }
 
   /**
    * Switch to a different provider
    */
   switchProvider(providerType: ProviderType): void {
-    this.provider = providerType === 'claude' ? this.claudeProvider : this.ollamaProvider;
+    this.settings.provider = providerType;
+
+    // The router builds each request's chain from settings, so it only needs to see the change
+    this.router?.updateSettings(this.settings);
+  }
 
-    // Update modes with new provider
-    this.museMode?.setProvider(this.provider!);
-    this.whisperMode?.setProvider(this.provider!);
+  /**
+   * Rebuild provider chains after the fallback list or routing rules changed
+   */
+  updateRouting(): void {
+    this.router?.updateSettings(this.settings);
   }
 
   /**
    * Update provider configuration
    */
   updateProviderConfig(): void {
-    if (this.settings.provider === 'claude' && this.claudeProvider) {
-      this.claudeProvider.setApiKey(this.settings.claudeApiKey);
+    // Fallbacks can be any provider, so keep all of them in sync
+    if (this.claudeProvider) {
+      this.claudeProvider.setApiKey(resolveClaudeApiKey(this.app, this.settings));
       this.claudeProvider.setModel(this.settings.claudeModel);
-    } else if (this.settings.provider === 'ollama' && this.ollamaProvider) {
+    }
+    if (this.ollamaProvider) {
       this.ollamaProvider.setBaseUrl(this.settings.ollamaBaseUrl);
       this.ollamaProvider.setModel(this.settings.ollamaModel);
+      this.ollamaProvider.setKeepAlive(this.settings.ollamaKeepAlive);
+    }
+    if (this.openaiProvider) {
+      this.openaiProvider.setBaseUrl(this.settings.openaiBaseUrl);
+      this.openaiProvider.setApiKey(this.settings.openaiApiKey);
+      this.openaiProvider.setModel(this.settings.openaiModel);
+    }
+    if (this.mockProvider) {
+      this.mockProvider.setOptions(this.getMockOptions());
+    }
+  }
+
+  /**
+   * Check the connection to the primary provider
+   * @returns The diagnostic report, or null if the provider isn't set up
+   */
+  async testConnection(): Promise<ConnectionDiagnostics | null> {
+    const provider = this.getProviderForType(this.settings.provider);
+    if (!provider) {
+      return null;
     }
+    return provider.testConnection();
   }
 
   /**
-   * Test connection to current provider
+   * Fetch the Claude models available to the API key
+   * @returns The models, or null if the Models API couldn't be reached
    */
-  async testConnection(): Promise<boolean> {
-    if (!this.provider) {
-      return false;
+  async fetchClaudeModels(refresh: boolean = false): Promise<ClaudeModelInfo[] | null> {
+    if (!this.claudeProvider) {
+      return null;
+    }
+    return this.claudeProvider.fetchModels(refresh);
+  }
+
+  /**
+   * Warn if the saved Claude model is no longer offered, e.g. after it was retired
+   */
+  private async checkClaudeModel(): Promise<void> {
+    const models = await this.fetchClaudeModels();
+    const model = this.settings.claudeModel;
+    if (models && model && !models.some((info) => info.id === model)) {
+      new Notice(
+        `Enchanted Notes: the Claude model "${model}" isn't available anymore. Pick another model in settings.`,
+        10000
+      );
     }
-    return this.provider.testConnection();
   }
 
   /**
@@ -120,6 +361,68 @@ export default class EnchantedNotesPlugin extends Plugin {
     return this.ollamaProvider.listModels();
   }
 
+  /**
+   * Get details (size, quantization, context length) of an Ollama model
+   */
+  async getOllamaModelDetails(model: string): Promise<OllamaModelDetails | null> {
+    if (!this.ollamaProvider) {
+      return null;
+    }
+    return this.ollamaProvider.getModelDetails(model);
+  }
+
+  /**
+   * Download an Ollama model
+   */
+  async pullOllamaModel(
+    model: string,
+    onProgress: (progress: OllamaPullProgress) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!this.ollamaProvider) {
+      return;
+    }
+    await this.ollamaProvider.pullModel(model, onProgress, signal);
+  }
+
+  /**
+   * Load the selected Ollama model into memory
+   */
+  async warmUpOllama(): Promise<void> {
+    if (!this.ollamaProvider) {
+      return;
+    }
+    await this.ollamaProvider.warmUp();
+  }
+
+  /**
+   * Re-read the mock provider's fixture file, e.g. after its path changed
+   */
+  reloadMockFixture(): void {
+    this.mockProvider?.reloadFixture();
+  }
+
+  /**
+   * Check whether a provider is the primary, a fallback or the target of a routing rule
+   */
+  private usesProvider(providerType: ProviderType): boolean {
+    return (
+      this.settings.provider === providerType ||
+      this.settings.fallbackProviders.includes(providerType) ||
+      this.settings.routingRules.some((rule) => rule.provider === providerType)
+    );
+  }
+
+  /**
+   * Fetch available models from the OpenAI-compatible server
+   */
+  async fetchOpenAIModels(): Promise<string[]> {
+    if (!this.openaiProvider) {
+      return [];
+    }
+    return this.openaiProvider.listModels();
+  }
+
   /**
    * Register CodeMirror editor extensions
    */
@@ -133,8 +436,33 @@ export default class EnchantedNotesPlugin extends Plugin {
     // Trigger plugin to forward editor updates to MuseMode
     const triggerPlugin = this.createTriggerPlugin();
 
+    // Escape in the editor a muse is streaming into stops it
+    const stopKeymap = this.createStopKeymap();
+
     // Register extensions
-    this.registerEditorExtension([museDecorator, whisperWidget, triggerPlugin]);
+    this.registerEditorExtension([museDecorator, whisperWidget, triggerPlugin, stopKeymap]);
+  }
+
+  /**
+   * Create a keymap that stops a streaming muse on Escape. It only acts in
+   * the note the muse is writing to, and after higher-precedence handlers
+   * (autocomplete popups, Vim leaving insert mode) have passed on the key.
+   */
+  private createStopKeymap(): Extension {
+    return keymap.of([
+      {
+        key: 'Escape',
+        run: (view) => {
+          const notePath = view.state.field(editorInfoField, false)?.file?.path;
+          if (!notePath || !this.museMode?.isBusyIn(notePath)) {
+            return false;
+          }
+          this.museMode.cancel();
+          new Notice('Muse stopped');
+          return true;
+        },
+      },
+    ]);
   }
 
   /**
@@ -142,13 +470,24 @@ export default class EnchantedNotesPlugin extends Plugin {
    */
   private createTriggerPlugin(): Extension {
     const museMode = this.museMode;
+    const scheduler = this.scheduler;
 
     return ViewPlugin.fromClass(
       class {
         update(update: ViewUpdate) {
-          if (update.docChanged && museMode) {
-            museMode.handleEditorUpdate(update);
+          if (!update.docChanged) {
+            return;
           }
+          // Queued whispers about this note are about text the user has just
+          // changed; the plugin's own edits (muse streaming) don't count
+          const userEdit = update.transactions.some((tr) =>
+            USER_EDIT_EVENTS.some((event) => tr.isUserEvent(event))
+          );
+          const notePath = update.state.field(editorInfoField, false)?.file?.path;
+          if (userEdit && notePath) {
+            scheduler.dropQueued('whisper', notePath);
+          }
+          museMode?.handleEditorUpdate(update);
         }
       }
     );
@@ -188,6 +527,15 @@ export default class EnchantedNotesPlugin extends Plugin {
         cls: `enchanted-status-indicator ${statusClass}`,
       });
 
+      // Show which backend actually answered, which may be a fallback
+      const answered = this.router?.getLastAnswered();
+      if (answered && (museEnabled || whisperEnabled)) {
+        statusText += ` · ${answered.provider.name}`;
+        if (answered.model) {
+          statusText += ` (${answered.model})`;
+        }
+      }
+
       statusBarItem.createSpan({ text: statusText });
     };
 
@@ -201,6 +549,9 @@ export default class EnchantedNotesPlugin extends Plugin {
   async onunload(): Promise<void> {
     console.log('Unloading Enchanted Notes plugin');
 
+    // Flush any usage recorded since the last save
+    this.requestSave.run();
+
     // Clean up modes
     this.museMode?.destroy();
     this.whisperMode?.destroy();
@@ -213,20 +564,119 @@ export default class EnchantedNotesPlugin extends Plugin {
    * Load settings from disk
    */
   async loadSettings(): Promise<void> {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // The usage ledger is stored next to the settings in plugin data
+    const { usageLedger, ...settings } = (await this.loadData()) ?? {};
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+    this.ledger = new UsageLedger(
+      (usageLedger as UsageRow[] | undefined) ?? [],
+      () => this.settings.modelPrices
+    );
   }
 
   /**
-   * Save settings to disk
+   * Save settings (and the usage ledger) to disk
    */
   async saveSettings(): Promise<void> {
-    await this.saveData(this.settings);
+    await this.saveData({ ...this.settings, usageLedger: this.ledger.toJSON() });
 
-    // Update modes with new settings
+    // Update router and modes with new settings
+    this.router?.updateSettings(this.settings);
     this.museMode?.updateSettings(this.settings);
     this.whisperMode?.updateSettings(this.settings);
   }
 
+  /**
+   * Apply edited moods: update the registry, the set-mood commands, and
+   * drop mood overrides that point at a deleted mood
+   */
+  updateMoods(): void {
+    this.moods.setMoods(this.settings.moods);
+    this.onMoodsChanged();
+  }
+
+  /**
+   * Load the moods defined by notes in the mood folder
+   */
+  async reloadMoodNotes(): Promise<void> {
+    const moods = await loadVaultMoods(this.app, this.settings.moodFolder);
+    this.moods.setVaultMoods(moods);
+    this.onMoodsChanged();
+  }
+
+  /**
+   * Reload mood notes whenever a note in the mood folder changes
+   */
+  private watchMoodNotes(): void {
+    const reload = debounce(() => {
+      this.reloadMoodNotes().catch((error) => console.error('Failed to reload mood notes:', error));
+    }, 500, true);
+    const inFolder = (path: string) =>
+      !!this.settings.moodFolder && isInMoodFolder(path, this.settings.moodFolder);
+
+    // The metadata cache fires after frontmatter is parsed, so edits and new notes read fresh values
+    this.registerEvent(
+      this.app.metadataCache.on('changed', (file) => {
+        if (inFolder(file.path)) {
+          reload();
+        }
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on('delete', (file) => {
+        if (inFolder(file.path)) {
+          reload();
+        }
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => {
+        if (inFolder(file.path) || inFolder(oldPath)) {
+          reload();
+        }
+      })
+    );
+
+    this.app.workspace.onLayoutReady(() => reload());
+  }
+
+  /**
+   * Bring commands and modes in line with the current moods
+   */
+  private onMoodsChanged(): void {
+    this.registerMoodCommands();
+
+    for (const mode of [this.museMode, this.whisperMode]) {
+      const mood = mode?.getMood();
+      if (mode && mood && mood !== 'auto' && !this.moods.get(mood)) {
+        mode.setMood('auto');
+      }
+    }
+  }
+
+  /**
+   * Register a set-mood command per mood, replacing the previous ones
+   */
+  private registerMoodCommands(): void {
+    if (!this.museMode || !this.whisperMode) {
+      return;
+    }
+
+    // removeCommand arrived in Obsidian 1.7.2; before that, commands for
+    // deleted moods stay in the palette until the plugin reloads
+    if (typeof this.removeCommand === 'function') {
+      for (const id of this.moodCommandIds) {
+        this.removeCommand(id);
+      }
+    }
+
+    this.moodCommandIds = registerMoodCommands(
+      (cmd) => this.addCommand(cmd),
+      this.museMode,
+      this.whisperMode,
+      this.moods
+    );
+  }
+
   /**
    * Update the pause duration
    */
@@ -238,23 +688,27 @@ export default class EnchantedNotesPlugin extends Plugin {
   }
 
   /**
-   * Get developer stats
+   * Get developer stats for the backend that answered last (or the primary)
    */
   getStats(): DeveloperStats {
-    return (
-      this.provider?.getStats() || {
-        tokensThisSession: 0,
-        tokensToday: 0,
-        lastResponseTime: 0,
-        currentContextSize: 0,
-      }
-    );
+    const provider = this.router?.getLastAnswered()?.provider ?? this.router?.getPrimary();
+    const stats = provider?.getStats() || createEmptyStats();
+
+    // Today's total comes from the ledger so it survives reloads and resets at midnight
+    const today = this.ledger.getToday();
+    stats.tokensToday = today.inputTokens + today.outputTokens;
+    stats.responseCacheHitsThisSession = this.responseCache?.getHits() ?? 0;
+    return stats;
   }
 
   /**
    * Reset session stats
    */
   resetSessionStats(): void {
-    this.provider?.resetSessionStats();
+    this.claudeProvider?.resetSessionStats();
+    this.ollamaProvider?.resetSessionStats();
+    this.openaiProvider?.resetSessionStats();
+    this.mockProvider?.resetSessionStats();
+    this.responseCache?.resetHits();
   }
 }
@@ -1,10 +1,24 @@
 import { App, MarkdownView, Notice, TFile } from 'obsidian';
 import { EditorView, ViewUpdate } from '@codemirror/view';
-import { LLMProvider } from '../api/provider';
+import { Message, isAbortError } from '../api/provider';
+import { ProviderRouter } from '../api/router';
+import { RequestPriority } from '../api/scheduler';
+import { getErrorMessage } from '../api/errors';
 import { TriggerManager } from '../detection/triggers';
-import { detectContext, getLinkedNotesContent } from '../detection/context';
-import { isInsideEnchantment, getCleanContent } from '../utils/parser';
-import { getSystemPrompt } from '../moods';
+import {
+  detectContext,
+  getLinkedNotesContent,
+  getPromptNoteContent,
+  getPromptVariables,
+} from '../detection/context';
+import {
+  createConsultedLine,
+  findLastParagraphStart,
+  isInsideEnchantment,
+  splitMuseExchanges,
+} from '../utils/parser';
+import { MoodRegistry } from '../moods';
+import { VAULT_TOOLS, VAULT_TOOLS_PROMPT, VaultTools } from '../tools/vault';
 import { EnchantedNotesSettings, Mood, LLMContext } from '../types';
 
 /**
@@ -12,34 +26,38 @@ import { EnchantedNotesSettings, Mood, LLMContext } from '../types';
  */
 export class MuseMode {
   private app: App;
-  private provider: LLMProvider;
+  private router: ProviderRouter;
   private settings: EnchantedNotesSettings;
   private triggerManager: TriggerManager;
   private isGenerating: boolean = false;
+  private generatingPath: string | null = null; // note the response is streaming into
+  private abortController: AbortController | null = null;
+  private moods: MoodRegistry;
   private currentMood: Mood | 'auto' = 'auto';
 
-  constructor(app: App, provider: LLMProvider, settings: EnchantedNotesSettings) {
+  constructor(app: App, router: ProviderRouter, settings: EnchantedNotesSettings, moods: MoodRegistry) {
     this.app = app;
-    this.provider = provider;
+    this.router = router;
     this.settings = settings;
+    this.moods = moods;
     this.triggerManager = new TriggerManager(settings.pauseDuration);
 
     this.setupTriggers();
   }
 
   /**
-   * Set the LLM provider
+   * Set the provider router
    */
-  setProvider(provider: LLMProvider): void {
-    this.provider = provider;
+  setRouter(router: ProviderRouter): void {
+    this.router = router;
   }
 
   /**
    * Set up trigger callbacks
    */
   private setupTriggers(): void {
-    this.triggerManager.onPause(() => this.handleTrigger());
-    this.triggerManager.onDoubleEnter(() => this.handleTrigger());
+    this.triggerManager.onPause(() => this.handleTrigger('pause'));
+    this.triggerManager.onDoubleEnter(() => this.handleTrigger('pause'));
   }
 
   /**
@@ -52,10 +70,14 @@ export class MuseMode {
 
   /**
    * Disable Muse mode
+   * @param notify Show the "disabled" notice (off when the caller explains why)
    */
-  disable(): void {
+  disable(notify: boolean = true): void {
     this.triggerManager.disable();
-    new Notice('Muse mode disabled');
+    this.cancel();
+    if (notify) {
+      new Notice('Muse mode disabled');
+    }
   }
 
   /**
@@ -81,7 +103,7 @@ export class MuseMode {
    */
   setMood(mood: Mood | 'auto'): void {
     this.currentMood = mood;
-    new Notice(`Mood set to: ${mood === 'auto' ? 'Auto-detect' : mood}`);
+    new Notice(`Mood set to: ${mood === 'auto' ? 'Auto-detect' : this.moods.getDisplayName(mood)}`);
   }
 
   /**
@@ -110,46 +132,109 @@ export class MuseMode {
     this.triggerManager.handleUpdate(update);
   }
 
+  /**
+   * Check if a response is currently being generated
+   */
+  isBusy(): boolean {
+    return this.isGenerating;
+  }
+
+  /**
+   * Check if a response is currently being generated into a note
+   */
+  isBusyIn(path: string): boolean {
+    return this.isGenerating && this.generatingPath === path;
+  }
+
+  /**
+   * Stop the response being generated, if any. The unfinished block is
+   * removed from the note once the provider request has unwound.
+   * @returns true if a generation was cancelled
+   */
+  cancel(): boolean {
+    if (!this.abortController) {
+      return false;
+    }
+
+    this.abortController.abort();
+    this.abortController = null;
+    return true;
+  }
+
   /**
    * Manually trigger a Muse response
    */
   async summon(): Promise<void> {
-    await this.handleTrigger();
+    await this.handleTrigger('summoned');
   }
 
   /**
-   * Build the user message for the LLM
+   * Build the conversation for the LLM.
+   *
+   * The note is replayed as alternating turns: the user's writing between
+   * earlier muse blocks, and those muse blocks as the assistant's replies.
+   * This lets the muse see what it already asked instead of repeating itself.
    */
-  private buildUserMessage(context: LLMContext): string {
-    const cleanContent = getCleanContent(context.noteContent);
+  private buildMessages(context: LLMContext): Message[] {
+    // For Muse mode, only include content up to the cursor
+    const noteContent =
+      context.cursorPosition !== undefined
+        ? context.noteContent.substring(0, context.cursorPosition)
+        : context.noteContent;
+
+    const messages: Message[] = splitMuseExchanges(noteContent);
+
+    // The conversation must open with a user turn
+    if (messages.length === 0 || messages[0].role !== 'user') {
+      messages.unshift({ role: 'user', content: '' });
+    }
 
-    let message = '';
+    let header = '';
 
     // Add linked notes context if available
     if (context.linkedNotes && context.linkedNotes.length > 0) {
-      message += '## Linked Notes Context\n\n';
-      message += context.linkedNotes.join('\n\n');
-      message += '\n\n---\n\n';
+      header += '## Linked Notes Context\n\n';
+      header += context.linkedNotes.join('\n\n');
+      header += '\n\n---\n\n';
     }
 
-    message += '## Current Note\n\n';
-
-    if (context.style === 'muse' && context.cursorPosition !== undefined) {
-      // For Muse mode, include content up to cursor
-      message += cleanContent.substring(0, context.cursorPosition);
-      message += '\n\n[CURSOR POSITION - respond to what comes before this point]';
+    header += '## Current Note\n\n';
+    messages[0] = {
+      role: 'user',
+      content: header + messages[0].content,
+      // Linked notes are resent unchanged on every trigger, so let the provider cache them
+      cacheBreakpoints: context.linkedNotes?.length ? [header.length] : [],
+    };
+
+    // End with a user turn, marking where the user stopped writing
+    const cursorMarker = '[CURSOR POSITION - respond to what comes before this point]';
+    const last = messages[messages.length - 1];
+    if (last.role === 'user') {
+      // The writing before the paragraph being worked on is settled...
+      const paragraphStart = findLastParagraphStart(last.content);
+      messages[messages.length - 1] = {
+        role: 'user',
+        content: `${last.content}\n\n${cursorMarker}`,
+        cacheBreakpoints: [...(last.cacheBreakpoints ?? []), paragraphStart],
+      };
     } else {
-      // For Whisper mode, include full content
-      message += cleanContent;
+      messages.push({ role: 'user', content: cursorMarker });
+    }
+
+    // ...and so is everything before that last turn, including a muse reply it follows
+    if (messages.length > 1) {
+      const settled = messages[messages.length - 2];
+      settled.cacheBreakpoints = [...(settled.cacheBreakpoints ?? []), settled.content.length];
     }
 
-    return message;
+    return messages;
   }
 
   /**
-   * Handle a trigger event (pause or double-enter)
+   * Handle a trigger event (pause, double-enter or summon)
+   * @param priority Place in the request queue: summoned muses go first
    */
-  private async handleTrigger(): Promise<void> {
+  private async handleTrigger(priority: RequestPriority): Promise<void> {
     if (this.isGenerating) {
       return;
     }
@@ -179,20 +264,28 @@ export class MuseMode {
       return;
     }
 
-    // Check if provider is configured
-    if (!this.provider.isConfigured()) {
+    // Detect context
+    const detectedContext = detectContext(this.app, file, content, this.settings, this.moods);
+
+    // Use mood override if set, and the mood still exists
+    const override = this.currentMood !== 'auto' ? this.moods.get(this.currentMood) : null;
+    const mood = override ? override.id : detectedContext.mood;
+
+    // Resolve the provider and model for this mood, and check it is configured
+    const provider = this.router.resolve('muse', mood, detectedContext.model);
+    if (!provider.isConfigured()) {
       new Notice('Please configure your LLM provider in settings');
       return;
     }
 
     this.isGenerating = true;
+    this.generatingPath = file.path;
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
+    // The block we inserted and haven't finished yet, so it can be removed on error or cancel
+    const pendingBlock = { start: -1, text: '' };
 
     try {
-      // Detect context
-      const detectedContext = detectContext(this.app, file, content, this.settings);
-
-      // Use mood override if set
-      const mood = this.currentMood !== 'auto' ? this.currentMood : detectedContext.mood;
 
       // Build context
       const context: LLMContext = {
@@ -201,8 +294,16 @@ export class MuseMode {
         mood,
         style: 'muse',
         notePath: file.path,
+        persona: detectedContext.persona,
+        model: detectedContext.model,
+        language: detectedContext.language,
       };
 
+      // Get the note's own prompt if it links one
+      if (detectedContext.promptLink) {
+        context.promptNote = await getPromptNoteContent(this.app, file, detectedContext.promptLink, 'muse');
+      }
+
       // Get linked notes if enabled
       if (this.settings.enableLinkedNoteContext) {
         context.linkedNotes = await getLinkedNotesContent(
@@ -212,9 +313,14 @@ export class MuseMode {
         );
       }
 
-      // Get system prompt and user message
-      const systemPrompt = getSystemPrompt(mood, 'muse');
-      const userMessage = this.buildUserMessage(context);
+      // Get system prompt and conversation
+      const vaultTools = this.settings.museToolsEnabled ? new VaultTools(this.app, file) : null;
+      const moodPrompt = this.moods.getNoteSystemPrompt(
+        context,
+        getPromptVariables(this.app, file, this.settings)
+      );
+      const systemPrompt = vaultTools ? `${moodPrompt}\n\n${VAULT_TOOLS_PROMPT}` : moodPrompt;
+      const messages = this.buildMessages(context);
 
       // Find the end of the document to insert the response there
       const docLength = content.length;
@@ -223,16 +329,22 @@ export class MuseMode {
       // Insert placeholder at the end of the document
       editor.replaceRange('\n\n::muse[...]::  ', insertPos);
 
-      // Track the position and length of our placeholder
-      let placeholderStart = docLength + 2; // Account for '\n\n'
+      // Track the position and text of our placeholder
+      const placeholderStart = docLength + 2; // Account for '\n\n'
       let currentBlockLength = '::muse[...]::  '.length; // Initial placeholder length including trailing spaces
+      pendingBlock.start = docLength;
+      pendingBlock.text = '\n\n::muse[...]::  ';
       let streamedContent = '';
 
       // Generate response with streaming
-      await this.provider.chat(
+      await provider.chat(
         systemPrompt,
-        userMessage,
+        messages,
         (text) => {
+          if (signal.aborted) {
+            return;
+          }
+
           // Update the placeholder with streaming content
           streamedContent += text;
           const newContent = `::muse[${streamedContent}]::`;
@@ -245,14 +357,37 @@ export class MuseMode {
             );
             // Update the length for next iteration
             currentBlockLength = newContent.length;
+            pendingBlock.text = `\n\n${newContent}`;
           } catch {
             // Silently ignore errors during streaming (e.g., if user is editing)
           }
         },
         (fullText) => {
+          // The finished muse holds only the final answer, whatever was streamed on the way
+          if (fullText !== streamedContent) {
+            const finalContent = `::muse[${fullText}]::`;
+            editor.replaceRange(
+              finalContent,
+              editor.offsetToPos(placeholderStart),
+              editor.offsetToPos(placeholderStart + currentBlockLength)
+            );
+            currentBlockLength = finalContent.length;
+            streamedContent = fullText;
+          }
+
           // Response complete - add newlines and move cursor
-          const finalContent = editor.getValue();
-          const blockEnd = placeholderStart + `::muse[${streamedContent}]::`.length;
+          let blockEnd = placeholderStart + `::muse[${streamedContent}]::`.length;
+          pendingBlock.start = -1;
+
+          // List the notes the muse read under its response
+          const consulted = vaultTools?.getConsultedNotes() ?? [];
+          if (consulted.length > 0) {
+            const line = `\n${createConsultedLine(
+              consulted.map((note) => this.app.metadataCache.fileToLinktext(note, file.path, true))
+            )}`;
+            editor.replaceRange(line, editor.offsetToPos(blockEnd));
+            blockEnd += line.length;
+          }
 
           // Add newlines after the block
           editor.replaceRange('\n\n', editor.offsetToPos(blockEnd));
@@ -262,22 +397,75 @@ export class MuseMode {
           editor.setCursor(newCursorPos);
 
           this.triggerManager.markProcessed(editor.getValue());
+        },
+        {
+          signal,
+          priority,
+          notePath: file.path,
+          params: this.router.getGenerationParams('muse', mood),
+          tools: vaultTools
+            ? {
+                definitions: VAULT_TOOLS,
+                execute: vaultTools.execute,
+                maxRounds: this.settings.museToolRounds,
+              }
+            : undefined,
         }
       );
     } catch (error) {
-      console.error('Muse generation error:', error);
-      new Notice(`Muse error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-
-      // Remove the placeholder if there was an error
-      // Search from the end of the document where we inserted it
-      const currentContent = editor.getValue();
-      const placeholderPattern = /\n\n::muse\[[^\]]*\]::  $/;
-      const match = currentContent.match(placeholderPattern);
-      if (match && match.index !== undefined) {
-        editor.replaceRange('', editor.offsetToPos(match.index), editor.offsetToPos(match.index + match[0].length));
+      if (!isAbortError(error)) {
+        console.error('Muse generation error:', error);
+        new Notice(`Muse: ${getErrorMessage(error)}`);
+      }
+
+      // Remove the placeholder (or partial response) we inserted
+      if (pendingBlock.start !== -1) {
+        await this.removePendingBlock(view, file, pendingBlock);
       }
     } finally {
       this.isGenerating = false;
+      this.generatingPath = null;
+      this.abortController = null;
+    }
+  }
+
+  /**
+   * Remove an unfinished muse block from the note it was inserted into.
+   * The user may have switched notes mid-stream, in which case the editor
+   * no longer shows that file and the block is removed from disk instead.
+   */
+  private async removePendingBlock(
+    view: MarkdownView,
+    file: TFile,
+    block: { start: number; text: string }
+  ): Promise<void> {
+    if (view.file?.path === file.path) {
+      const editor = view.editor;
+      const current = editor.getValue();
+
+      // Prefer the position we inserted at, fall back to the last occurrence if the user edited above it
+      const start =
+        current.substring(block.start, block.start + block.text.length) === block.text
+          ? block.start
+          : current.lastIndexOf(block.text);
+
+      if (start !== -1) {
+        editor.replaceRange(
+          '',
+          editor.offsetToPos(start),
+          editor.offsetToPos(start + block.text.length)
+        );
+      }
+      return;
+    }
+
+    try {
+      await this.app.vault.process(file, (data) => {
+        const start = data.lastIndexOf(block.text);
+        return start === -1 ? data : data.substring(0, start) + data.substring(start + block.text.length);
+      });
+    } catch (error) {
+      console.error('Failed to remove unfinished muse block:', error);
     }
   }
 
@@ -292,6 +480,7 @@ export class MuseMode {
    * Clean up resources
    */
   destroy(): void {
+    this.cancel();
     this.triggerManager.destroy();
   }
 }
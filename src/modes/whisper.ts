@@ -1,11 +1,26 @@
 import { App, MarkdownView, Notice, TFile } from 'obsidian';
 import { EditorView } from '@codemirror/view';
-import { LLMProvider } from '../api/provider';
+import { LLMProvider, Message, RequestOptions, isAbortError } from '../api/provider';
+import { ProviderRouter } from '../api/router';
+import { ProviderError, ProviderErrorKind } from '../api/errors';
 import { WhisperTriggerManager } from '../detection/triggers';
-import { detectContext, getLinkedNotesContent } from '../detection/context';
-import { getCleanContent } from '../utils/parser';
-import { getSystemPrompt } from '../moods';
+import {
+  detectContext,
+  getLinkedNotesContent,
+  getPromptNoteContent,
+  getPromptVariables,
+} from '../detection/context';
+import { findLastParagraphStart, getCleanContent } from '../utils/parser';
+import { MoodRegistry } from '../moods';
 import { addWhisper, clearAllWhispers } from '../rendering/whisper-widget';
+import {
+  STRUCTURED_RESPONSE_TOKENS,
+  WHISPER_REPAIR_PROMPT,
+  WHISPER_RESPONSE_FORMAT,
+  WHISPER_RESPONSE_PROMPT,
+  WhisperResponse,
+  parseWhisperResponse,
+} from '../utils/whisper-response';
 import { EnchantedNotesSettings, Mood, LLMContext } from '../types';
 
 /**
@@ -13,27 +28,31 @@ import { EnchantedNotesSettings, Mood, LLMContext } from '../types';
  */
 export class WhisperMode {
   private app: App;
-  private provider: LLMProvider;
+  private router: ProviderRouter;
   private settings: EnchantedNotesSettings;
   private triggerManager: WhisperTriggerManager;
   private isAnalyzing: boolean = false;
+  private abortController: AbortController | null = null;
+  private moods: MoodRegistry;
   private currentMood: Mood | 'auto' = 'auto';
   private lastParagraphAnalyzed: number = -1;
+  private lastReportedError: ProviderErrorKind | null = null;
 
-  constructor(app: App, provider: LLMProvider, settings: EnchantedNotesSettings) {
+  constructor(app: App, router: ProviderRouter, settings: EnchantedNotesSettings, moods: MoodRegistry) {
     this.app = app;
-    this.provider = provider;
+    this.router = router;
     this.settings = settings;
+    this.moods = moods;
     this.triggerManager = new WhisperTriggerManager();
 
     this.setupTriggers();
   }
 
   /**
-   * Set the LLM provider
+   * Set the provider router
    */
-  setProvider(provider: LLMProvider): void {
-    this.provider = provider;
+  setRouter(router: ProviderRouter): void {
+    this.router = router;
   }
 
   /**
@@ -53,10 +72,14 @@ export class WhisperMode {
 
   /**
    * Disable Whisper mode
+   * @param notify Show the "disabled" notice (off when the caller explains why)
    */
-  disable(): void {
+  disable(notify: boolean = true): void {
     this.triggerManager.disable();
-    new Notice('Whisper mode disabled');
+    this.cancel();
+    if (notify) {
+      new Notice('Whisper mode disabled');
+    }
   }
 
   /**
@@ -84,6 +107,27 @@ export class WhisperMode {
     this.currentMood = mood;
   }
 
+  /**
+   * Get the current mood
+   */
+  getMood(): Mood | 'auto' {
+    return this.currentMood;
+  }
+
+  /**
+   * Stop the analysis in flight, if any
+   * @returns true if an analysis was cancelled
+   */
+  cancel(): boolean {
+    if (!this.abortController) {
+      return false;
+    }
+
+    this.abortController.abort();
+    this.abortController = null;
+    return true;
+  }
+
   /**
    * Update settings
    */
@@ -94,22 +138,30 @@ export class WhisperMode {
   /**
    * Build the user message for the LLM
    */
-  private buildUserMessage(context: LLMContext): string {
+  private buildUserMessage(context: LLMContext): Message {
     const cleanContent = getCleanContent(context.noteContent);
 
     let message = '';
+    const cacheBreakpoints: number[] = [];
 
     // Add linked notes context if available
     if (context.linkedNotes && context.linkedNotes.length > 0) {
       message += '## Linked Notes Context\n\n';
       message += context.linkedNotes.join('\n\n');
       message += '\n\n---\n\n';
+      // Resent unchanged on every analysis, so let the provider cache it
+      cacheBreakpoints.push(message.length);
     }
 
     message += '## Current Note\n\n';
+    // Paragraphs before the one being written rarely change between analyses
+    const paragraphStart = findLastParagraphStart(cleanContent);
+    if (paragraphStart > 0) {
+      cacheBreakpoints.push(message.length + paragraphStart);
+    }
     message += cleanContent;
 
-    return message;
+    return { role: 'user', content: message, cacheBreakpoints };
   }
 
   /**
@@ -138,25 +190,30 @@ export class WhisperMode {
       return;
     }
 
-    // Check if provider is configured
-    if (!this.provider.isConfigured()) {
-      return; // Silently fail for whispers
-    }
-
     // Find a paragraph to analyze (different from last one)
     const paragraphToAnalyze = this.findParagraphToAnalyze(content);
     if (paragraphToAnalyze === null) {
       return;
     }
 
+    // Detect context
+    const detectedContext = detectContext(this.app, file, content, this.settings, this.moods);
+
+    // Use mood override if set, and the mood still exists
+    const override = this.currentMood !== 'auto' ? this.moods.get(this.currentMood) : null;
+    const mood = override ? override.id : detectedContext.mood;
+
+    // Resolve the provider and model for this mood, and check it is configured
+    const provider = this.router.resolve('whisper', mood, detectedContext.model);
+    if (!provider.isConfigured()) {
+      return; // Silently fail for whispers
+    }
+
     this.isAnalyzing = true;
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
 
     try {
-      // Detect context
-      const detectedContext = detectContext(this.app, file, content, this.settings);
-
-      // Use mood override if set
-      const mood = this.currentMood !== 'auto' ? this.currentMood : detectedContext.mood;
 
       // Build context
       const context: LLMContext = {
@@ -164,8 +221,16 @@ export class WhisperMode {
         mood,
         style: 'whisper',
         notePath: file.path,
+        persona: detectedContext.persona,
+        model: detectedContext.model,
+        language: detectedContext.language,
       };
 
+      // Get the note's own prompt if it links one
+      if (detectedContext.promptLink) {
+        context.promptNote = await getPromptNoteContent(this.app, file, detectedContext.promptLink, 'whisper');
+      }
+
       // Get linked notes if enabled
       if (this.settings.enableLinkedNoteContext) {
         context.linkedNotes = await getLinkedNotesContent(
@@ -176,23 +241,39 @@ export class WhisperMode {
       }
 
       // Get system prompt and user message
-      const systemPrompt =
-        getSystemPrompt(mood, 'whisper') +
-        '\n\nIMPORTANT: Only respond if you have something genuinely useful to observe. If not, respond with exactly "NO_WHISPER" and nothing else.';
+      const variables = getPromptVariables(this.app, file, this.settings);
+      const systemPrompt = `${this.moods.getNoteSystemPrompt(context, variables)}\n\n${WHISPER_RESPONSE_PROMPT}`;
       const userMessage = this.buildUserMessage(context);
 
+      // Leave room for the JSON around the observation
+      const params = this.router.getGenerationParams('whisper', mood);
+      const options: RequestOptions = {
+        signal,
+        params: { ...params, maxTokens: (params.maxTokens ?? 100) + STRUCTURED_RESPONSE_TOKENS },
+        responseFormat: WHISPER_RESPONSE_FORMAT,
+        priority: 'whisper',
+        notePath: file.path,
+      };
+
       // Generate whisper response
-      const whisper = await this.provider.generate(systemPrompt, userMessage);
+      const response = await provider.generate(systemPrompt, [userMessage], options);
+      const whisper = response ? await this.parseResponse(provider, response, options) : null;
 
-      if (whisper && whisper !== 'NO_WHISPER' && !whisper.includes('NO_WHISPER')) {
+      if (
+        whisper &&
+        whisper.shouldWhisper &&
+        whisper.confidence >= this.settings.whisperMinConfidence
+      ) {
         // Get the EditorView for widget manipulation
         // @ts-ignore - accessing internal API
         const cmEditor = view.editor.cm as EditorView;
 
         if (cmEditor) {
-          // Add whisper icon at the paragraph
-          const line = this.getLineForParagraph(content, paragraphToAnalyze);
-          addWhisper(cmEditor, line, whisper);
+          // Add whisper icon at the quoted text, or the paragraph if the quote isn't found
+          const line =
+            this.getLineForAnchor(content, whisper.anchor) ??
+            this.getLineForParagraph(content, paragraphToAnalyze);
+          addWhisper(cmEditor, line, whisper.observation);
         }
 
         this.lastParagraphAnalyzed = paragraphToAnalyze;
@@ -200,12 +281,69 @@ export class WhisperMode {
 
       // Mark content as analyzed
       this.triggerManager.markAnalyzed(content);
+      this.lastReportedError = null;
     } catch (error) {
-      console.error('Whisper analysis error:', error);
-      // Silently fail for whispers - don't interrupt the user
+      if (!isAbortError(error)) {
+        console.error('Whisper analysis error:', error);
+        this.reportError(error);
+      }
     } finally {
       this.isAnalyzing = false;
+      this.abortController = null;
+    }
+  }
+
+  /**
+   * Validate a whisper response, asking the model once to repair it if it
+   * isn't valid JSON in the expected shape
+   * @returns The whisper, or null if it couldn't be understood
+   */
+  private async parseResponse(
+    provider: LLMProvider,
+    response: string,
+    options: RequestOptions
+  ): Promise<WhisperResponse | null> {
+    const whisper = parseWhisperResponse(response);
+    if (whisper) {
+      return whisper;
+    }
+
+    const repaired = await provider.generate(
+      WHISPER_REPAIR_PROMPT,
+      [{ role: 'user', content: response }],
+      options
+    );
+    const result = repaired ? parseWhisperResponse(repaired) : null;
+    if (!result) {
+      console.warn('Discarding whisper response that is not valid JSON:', response);
+    }
+    return result;
+  }
+
+  /**
+   * Get the line number of the last occurrence of a quote from the note
+   * @returns The line, or null if the quote is too short or not in the note
+   */
+  private getLineForAnchor(content: string, anchor: string): number | null {
+    if (anchor.length < 3) {
+      return null;
+    }
+
+    const index = content.lastIndexOf(anchor);
+    return index === -1 ? null : content.substring(0, index).split('\n').length;
+  }
+
+  /**
+   * Tell the user why whispers stopped, once per kind of failure, so the
+   * background loop doesn't repeat the same Notice every few seconds
+   */
+  private reportError(error: unknown): void {
+    if (!(error instanceof ProviderError) || error.kind === this.lastReportedError) {
+      return;
     }
+
+    this.lastReportedError = error.kind;
+    new Notice(`Whisper: ${error.message}`);
   }
 
   /**
@@ -277,6 +415,7 @@ export class WhisperMode {
    * Clean up resources
    */
   destroy(): void {
+    this.cancel();
     this.triggerManager.destroy();
   }
 }
@@ -0,0 +1,327 @@
+import { InteractionStyle, LLMContext, Mood, MoodDefinition } from '../types';
+import { TemplateVariables, renderTemplate } from '../utils/template';
+import { REFLECT_SYSTEM_PROMPT, REFLECT_WHISPER_PROMPT } from './reflect';
+import { THINK_SYSTEM_PROMPT, THINK_WHISPER_PROMPT } from './think';
+import { PLAN_SYSTEM_PROMPT, PLAN_WHISPER_PROMPT } from './plan';
+import { TRANSLATED_EXAMPLES, getTranslatedKeywords } from './translations';
+import { PROMPT_LANGUAGE, getLanguageCode } from '../detection/language';
+
+/**
+ * The moods that ship with the plugin, used until the user edits the list
+ */
+export const BUILT_IN_MOODS: MoodDefinition[] = [
+  {
+    id: 'reflect',
+    name: 'Reflect',
+    description: 'journaling',
+    musePrompt: REFLECT_SYSTEM_PROMPT,
+    whisperPrompt: REFLECT_WHISPER_PROMPT,
+    keywords: [
+      'I feel',
+      'I felt',
+      'Today I',
+      "I'm feeling",
+      "I've been feeling",
+      'I noticed',
+      "I'm grateful",
+      "I'm struggling",
+      ...getTranslatedKeywords('reflect'),
+    ],
+    folders: ['journal', 'journals', 'diary', 'diaries', 'reflection', 'reflections'],
+    types: ['journal', 'diary', 'reflection'],
+  },
+  {
+    id: 'think',
+    name: 'Think',
+    description: 'essays/ideas',
+    musePrompt: THINK_SYSTEM_PROMPT,
+    whisperPrompt: THINK_WHISPER_PROMPT,
+    keywords: [
+      'the argument is',
+      'my thesis',
+      'I argue',
+      'I believe',
+      'the evidence',
+      'the reason',
+      'in conclusion',
+      'furthermore',
+      'however',
+      ...getTranslatedKeywords('think'),
+    ],
+    folders: ['essay', 'essays', 'writing', 'writings', 'idea', 'ideas', 'article', 'articles'],
+    types: ['essay', 'writing', 'article', 'idea', 'ideas'],
+  },
+  {
+    id: 'plan',
+    name: 'Plan',
+    description: 'todos/planning',
+    musePrompt: PLAN_SYSTEM_PROMPT,
+    whisperPrompt: PLAN_WHISPER_PROMPT,
+    keywords: [
+      '/^- \\[ \\]/m',
+      '/^- \\[x\\]/im',
+      'TODO',
+      'next steps',
+      'action items',
+      'deadline',
+      ...getTranslatedKeywords('plan'),
+    ],
+    folders: ['project', 'projects', 'todo', 'todos', 'task', 'tasks', 'planning'],
+    types: ['project', 'todo', 'task', 'tasks', 'plan', 'planning'],
+  },
+];
+
+/**
+ * Content needs at least this many keyword matches to suggest a mood
+ */
+const MIN_KEYWORD_MATCHES = 2;
+
+/**
+ * Turn a keyword into a pattern: /pattern/flags is a regular expression,
+ * anything else a case-insensitive phrase matched on word boundaries
+ */
+export function compileKeyword(keyword: string): RegExp | null {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(keyword);
+  try {
+    if (regex) {
+      const flags = regex[2].indexOf('g') === -1 ? `${regex[2]}g` : regex[2];
+      return new RegExp(regex[1], flags);
+    }
+
+    const phrase = keyword.trim();
+    if (!phrase) {
+      return null;
+    }
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const start = /^\w/.test(phrase) ? '\\b' : '';
+    const end = /\w$/.test(phrase) ? '\\b' : '';
+    return new RegExp(`${start}${escaped}${end}`, 'gi');
+  } catch {
+    console.warn(`Ignoring invalid mood keyword: ${keyword}`);
+    return null;
+  }
+}
+
+/**
+ * Make a mood ID from a name, unique among existing IDs
+ */
+export function createMoodId(name: string, existing: string[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'mood';
+
+  let id = base;
+  for (let i = 2; existing.indexOf(id) !== -1 || id === 'auto' || id === 'any'; i++) {
+    id = `${base}-${i}`;
+  }
+  return id;
+}
+
+/**
+ * The moods available to muses and whispers, and the rules for picking one
+ * for a note: by frontmatter type, folder name or keywords in the content
+ */
+export class MoodRegistry {
+  private configured: MoodDefinition[] = BUILT_IN_MOODS;
+  private vaultMoods: MoodDefinition[] = [];
+  private moods: MoodDefinition[] = BUILT_IN_MOODS;
+
+  constructor(moods: MoodDefinition[]) {
+    this.setMoods(moods);
+  }
+
+  /**
+   * Replace the moods from settings, an empty list means the built-in moods
+   */
+  setMoods(moods: MoodDefinition[]): void {
+    this.configured = moods.length > 0 ? moods : BUILT_IN_MOODS;
+    this.merge();
+  }
+
+  /**
+   * Replace the moods loaded from mood notes
+   */
+  setVaultMoods(moods: MoodDefinition[]): void {
+    this.vaultMoods = moods;
+    this.merge();
+  }
+
+  /**
+   * Combine both sources: a mood note replaces the configured mood with its
+   * ID, and the rest are added after the configured moods
+   */
+  private merge(): void {
+    const merged = this.configured.map(
+      (mood) => this.vaultMoods.find((vaultMood) => vaultMood.id === mood.id) ?? mood
+    );
+    for (const mood of this.vaultMoods) {
+      if (!merged.some((m) => m.id === mood.id)) {
+        merged.push(mood);
+      }
+    }
+    this.moods = merged;
+  }
+
+  /**
+   * Get every mood, in display order
+   */
+  getAll(): MoodDefinition[] {
+    return this.moods;
+  }
+
+  /**
+   * Get the moods from settings (or the built-in ones), without mood notes
+   */
+  getConfigured(): MoodDefinition[] {
+    return this.configured;
+  }
+
+  /**
+   * Get a mood by ID
+   */
+  get(id: Mood): MoodDefinition | null {
+    return this.moods.find((mood) => mood.id === id) ?? null;
+  }
+
+  /**
+   * Find a mood by ID or name, ignoring case, e.g. from frontmatter
+   */
+  find(idOrName: string): MoodDefinition | null {
+    const value = idOrName.trim().toLowerCase();
+    return this.moods.find((mood) => mood.id === value || mood.name.toLowerCase() === value) ?? null;
+  }
+
+  /**
+   * Get a mood by ID, or the first mood if it no longer exists
+   */
+  resolve(id: Mood): MoodDefinition {
+    return this.get(id) ?? this.moods[0];
+  }
+
+  /**
+   * Get a mood's name with its description, for mood pickers
+   */
+  getLabel(mood: MoodDefinition): string {
+    return mood.description ? `${mood.name} (${mood.description})` : mood.name;
+  }
+
+  /**
+   * Get the system prompt for a mood and style combination, rendered with
+   * the note's template variables; {{mood.name}} is added here
+   */
+  getSystemPrompt(id: Mood, style: InteractionStyle, variables: TemplateVariables = {}): string {
+    const mood = this.resolve(id);
+    const template = style === 'whisper' ? mood.whisperPrompt : mood.musePrompt;
+    return renderTemplate(template, this.withMood(mood, variables));
+  }
+
+  /**
+   * Get the system prompt for a note: the prompt from its enchant-prompt
+   * note in place of the mood's, then its enchant-persona instructions, then
+   * the language to answer in
+   */
+  getNoteSystemPrompt(context: LLMContext, variables: TemplateVariables = {}): string {
+    const mood = this.resolve(context.mood);
+    const noteVariables = this.withMood(mood, { ...variables, language: context.language ?? '' });
+
+    let prompt = context.promptNote
+      ? renderTemplate(context.promptNote, noteVariables)
+      : this.getSystemPrompt(context.mood, context.style, noteVariables);
+
+    if (context.persona) {
+      prompt += `\n\nFor this note, the writer also asks: ${renderTemplate(context.persona, noteVariables)}`;
+    }
+
+    // The prompts are already in English, so only other languages need saying
+    if (context.language && getLanguageCode(context.language) !== PROMPT_LANGUAGE) {
+      prompt += `\n\nThe note is written in ${context.language}. Write your responses in ${context.language}, even though these instructions are in English.`;
+      if (!context.promptNote) {
+        prompt += this.getTranslatedExamples(mood, context.style, context.language);
+      }
+    }
+
+    return prompt;
+  }
+
+  /**
+   * Get a built-in mood's examples in a language, for a mood whose prompt
+   * hasn't been changed. Empty when there is no translation.
+   */
+  private getTranslatedExamples(mood: MoodDefinition, style: InteractionStyle, language: string): string {
+    const promptKey = style === 'whisper' ? 'whisperPrompt' : 'musePrompt';
+    const builtIn = BUILT_IN_MOODS.find((m) => m.id === mood.id);
+    const code = getLanguageCode(language);
+    const examples = code ? TRANSLATED_EXAMPLES[mood.id]?.[code] : undefined;
+    if (!examples || !builtIn || builtIn[promptKey] !== mood[promptKey]) {
+      return '';
+    }
+
+    const heading = style === 'whisper' ? 'Example observations' : 'Example responses';
+    const lines = examples[style].map((example) => `- "${example}"`).join('\n');
+    return `\n\n${heading} in ${language}:\n${lines}`;
+  }
+
+  /**
+   * Add the {{mood.*}} variables
+   */
+  private withMood(mood: MoodDefinition, variables: TemplateVariables): TemplateVariables {
+    return { ...variables, mood: { id: mood.id, name: mood.name, description: mood.description } };
+  }
+
+  /**
+   * Get a user-friendly display name for a mood
+   */
+  getDisplayName(id: Mood): string {
+    return this.get(id)?.name ?? id;
+  }
+
+  /**
+   * Find the mood for a frontmatter type value
+   */
+  findByType(type: string): MoodDefinition | null {
+    const value = type.toLowerCase();
+    return this.moods.find((mood) => mood.types.some((t) => t.toLowerCase() === value)) ?? null;
+  }
+
+  /**
+   * Find the mood for the first folder in a path that a mood claims
+   */
+  findByFolder(filePath: string): MoodDefinition | null {
+    const pathParts = filePath.toLowerCase().split('/');
+
+    for (const part of pathParts) {
+      const mood = this.moods.find((m) => m.folders.some((folder) => folder.toLowerCase() === part));
+      if (mood) {
+        return mood;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the mood whose keywords match the content most often
+   */
+  detectFromContent(content: string): MoodDefinition | null {
+    let best: MoodDefinition | null = null;
+    let bestCount = 0;
+
+    for (const mood of this.moods) {
+      let count = 0;
+      for (const keyword of mood.keywords) {
+        const pattern = compileKeyword(keyword);
+        count += (pattern && content.match(pattern)?.length) || 0;
+      }
+
+      if (count > bestCount) {
+        best = mood;
+        bestCount = count;
+      }
+    }
+
+    // Only return if we have meaningful matches
+    return bestCount >= MIN_KEYWORD_MATCHES ? best : null;
+  }
+}
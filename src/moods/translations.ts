@@ -0,0 +1,205 @@
+/**
+ * Example phrases in another language for a built-in mood's prompts
+ */
+export interface MoodExamples {
+  muse: string[];
+  whisper: string[];
+}
+
+/**
+ * Keywords for detecting the built-in moods in notes that aren't in English,
+ * by mood ID and language code
+ */
+export const TRANSLATED_KEYWORDS: Record<string, Record<string, string[]>> = {
+  reflect: {
+    de: ['ich fühle', 'ich fühlte', 'heute habe ich', 'ich bin dankbar', 'mir ist aufgefallen'],
+    fr: ['je me sens', 'je ressens', "aujourd'hui j'ai", 'je suis reconnaissant', "j'ai remarqué"],
+    es: ['me siento', 'me sentí', 'hoy he', 'estoy agradecido', 'me di cuenta'],
+    ja: ['気持ち', '感じた', '今日は', '感謝', 'モヤモヤ'],
+  },
+  think: {
+    de: ['meine These', 'ich argumentiere', 'ich glaube', 'der Grund', 'zusammenfassend', 'allerdings'],
+    fr: ['ma thèse', "j'affirme", 'je crois', 'la raison', 'en conclusion', 'cependant'],
+    es: ['mi tesis', 'sostengo que', 'creo que', 'la razón', 'en conclusión', 'sin embargo'],
+    ja: ['私の主張', '根拠', '理由は', '結論として', 'しかし'],
+  },
+  plan: {
+    de: ['nächste Schritte', 'Aufgaben', 'Frist', 'erledigen'],
+    fr: ['prochaines étapes', 'à faire', 'échéance', 'tâches'],
+    es: ['próximos pasos', 'pendientes', 'fecha límite', 'tareas'],
+    ja: ['次のステップ', 'タスク', '締め切り', 'やること'],
+  },
+};
+
+/**
+ * The built-in moods' example responses and observations, translated, by
+ * mood ID and language code
+ */
+export const TRANSLATED_EXAMPLES: Record<string, Record<string, MoodExamples>> = {
+  reflect: {
+    de: {
+      muse: [
+        'Wie fühlt sich dieses „Feststecken“ gerade in deinem Körper an?',
+        'Du hast erwähnt, dass das schon einmal passiert ist. Was war diesmal anders?',
+        'Hier ist etwas Zartes. Magst du noch einen Moment dabei bleiben?',
+      ],
+      whisper: [
+        'Das scheint mit dem zusammenzuhängen, was du vorhin über Vertrauen geschrieben hast.',
+        'Hier ändert sich der Ton.',
+        'Du bist zu diesem Thema zurückgekehrt.',
+      ],
+    },
+    fr: {
+      muse: [
+        'À quoi ressemble ce « blocage » dans ton corps, là, maintenant ?',
+        "Tu dis que c'est déjà arrivé. Qu'est-ce qui était différent cette fois ?",
+        'Il y a quelque chose de sensible ici. Tu veux rester un moment avec ça ?',
+      ],
+      whisper: [
+        "Cela semble lié à ce que tu as écrit plus tôt sur la confiance.",
+        'Le ton change ici.',
+        'Tu reviens à ce thème.',
+      ],
+    },
+    es: {
+      muse: [
+        '¿Cómo se siente ese «estancamiento» en tu cuerpo ahora mismo?',
+        'Mencionaste que esto ya había pasado. ¿Qué fue distinto esta vez?',
+        'Hay algo delicado aquí. ¿Quieres quedarte un momento con ello?',
+      ],
+      whisper: [
+        'Esto parece conectado con lo que escribiste antes sobre la confianza.',
+        'Aquí cambia el tono.',
+        'Has vuelto a este tema.',
+      ],
+    },
+    ja: {
+      muse: [
+        'その「行き詰まり」は、今、体のどこでどんなふうに感じますか？',
+        '前にもあったと書いていましたね。今回は何が違いましたか？',
+        'ここには繊細な何かがありますね。もう少しここにとどまってみますか？',
+      ],
+      whisper: [
+        '先ほど書いた「信頼」の話とつながっているようです。',
+        'ここで語調が変わっています。',
+        'またこのテーマに戻ってきています。',
+      ],
+    },
+  },
+  think: {
+    de: {
+      muse: [
+        'Das setzt X voraus. Was, wenn das nicht stimmt?',
+        'Stärke hier die Gegenposition – was ist das beste Argument dagegen?',
+        'Das hängt mit [Konzept] zusammen. Hast du diesen Blickwinkel bedacht?',
+      ],
+      whisper: [
+        'Starke Behauptung. Belege?',
+        'Diesen Punkt hast du schon in Absatz 2 gemacht.',
+        'Das widerspricht deiner früheren Aussage.',
+        'Gegenbeispiel: [kurzer Hinweis]',
+      ],
+    },
+    fr: {
+      muse: [
+        "Cela suppose X. Et si ce n'était pas vrai ?",
+        'Renforce la position adverse ici : quel est le meilleur argument contre ?',
+        "Cela rejoint [concept]. As-tu envisagé cet angle ?",
+      ],
+      whisper: [
+        'Affirmation forte. Des preuves ?',
+        'Tu as déjà fait ce point au paragraphe 2.',
+        'Cela contredit ton affirmation précédente.',
+        'Contre-exemple : [brève mention]',
+      ],
+    },
+    es: {
+      muse: [
+        'Esto supone X. ¿Y si no fuera cierto?',
+        'Fortalece aquí la postura contraria: ¿cuál es el mejor argumento en contra?',
+        'Esto conecta con [concepto]. ¿Has considerado ese ángulo?',
+      ],
+      whisper: [
+        'Afirmación audaz. ¿Pruebas?',
+        'Ya planteaste esto en el párrafo 2.',
+        'Esto contradice tu afirmación anterior.',
+        'Contraejemplo: [breve mención]',
+      ],
+    },
+    ja: {
+      muse: [
+        'これはXを前提にしています。もしそれが正しくなかったら？',
+        'ここで反対の立場を最も強く言うとしたら、どんな反論になりますか？',
+        'これは[概念]とつながります。その観点は検討しましたか？',
+      ],
+      whisper: [
+        '大胆な主張。根拠は？',
+        'この点は第2段落でも述べています。',
+        '先ほどの主張と矛盾しています。',
+        '反例：[簡単な言及]',
+      ],
+    },
+  },
+  plan: {
+    de: {
+      muse: [
+        'Was ist hier der allernächste konkrete Schritt?',
+        'Das hängt von Y ab – sollte das eine eigene Aufgabe sein?',
+        'Hier sind drei Dinge. Welches macht den Weg für die anderen frei?',
+      ],
+      whisper: [
+        'Das hängt vom vorherigen Punkt ab.',
+        'Fehlt: Wer ist verantwortlich?',
+        'Dieser Abschnitt wird lang.',
+        'Keine Frist angegeben.',
+      ],
+    },
+    fr: {
+      muse: [
+        'Quelle est la toute prochaine action concrète ici ?',
+        'Cela dépend de Y : faut-il en faire une tâche à part ?',
+        "Il y a trois choses ici. Laquelle débloque les autres ?",
+      ],
+      whisper: [
+        "Cela dépend de l'élément précédent.",
+        'Manquant : qui est responsable ?',
+        'Cette section devient longue.',
+        'Échéance non précisée.',
+      ],
+    },
+    es: {
+      muse: [
+        '¿Cuál es la próxima acción concreta aquí?',
+        'Esto depende de Y: ¿debería ser una tarea aparte?',
+        'Hay tres cosas aquí. ¿Cuál desbloquea las demás?',
+      ],
+      whisper: [
+        'Esto depende del punto anterior.',
+        'Falta: ¿quién es responsable?',
+        'Esta sección se está alargando.',
+        'Fecha límite sin especificar.',
+      ],
+    },
+    ja: {
+      muse: [
+        'ここで次にとるべき具体的な行動は何ですか？',
+        'これはYに依存しています。別のタスクにすべきでは？',
+        'ここには3つのことがあります。どれが他を進める鍵になりますか？',
+      ],
+      whisper: [
+        'これは前の項目に依存しています。',
+        '不足：担当者は誰？',
+        'このセクションが長くなっています。',
+        '締め切りが書かれていません。',
+      ],
+    },
+  },
+};
+
+/**
+ * Get every translated keyword for a built-in mood
+ */
+export function getTranslatedKeywords(moodId: string): string[] {
+  const byLanguage = TRANSLATED_KEYWORDS[moodId] ?? {};
+  return Object.keys(byLanguage).reduce<string[]>((all, language) => all.concat(byLanguage[language]), []);
+}
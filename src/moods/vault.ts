@@ -0,0 +1,153 @@
+import { App, TFile, normalizePath, stringifyYaml } from 'obsidian';
+import { MoodDefinition } from '../types';
+import { BUILT_IN_MOODS, createMoodId } from './registry';
+
+/**
+ * Headings that start the muse and whisper prompts in a mood note
+ */
+const SECTION_PATTERN = /^#{1,6}[ \t]+(muse|whisper)\b.*$/gim;
+
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/;
+
+/**
+ * Check whether a path is inside the mood folder
+ */
+export function isInMoodFolder(path: string, folder: string): boolean {
+  const root = normalizePath(folder);
+  return root !== '/' && path.startsWith(`${root}/`);
+}
+
+/**
+ * Read a frontmatter value that may be a list or a comma-separated string
+ */
+function readList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return items.map((item) => String(item).trim()).filter((item) => item.length > 0);
+}
+
+/**
+ * Read a frontmatter value as text
+ */
+function readText(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+}
+
+/**
+ * Split a mood note body into its muse and whisper prompts. Text before the
+ * first section is for people reading the note and is left out; a body
+ * without sections is all muse prompt.
+ */
+export function parseMoodSections(body: string): { muse: string; whisper: string } {
+  const headings: RegExpExecArray[] = [];
+  const pattern = new RegExp(SECTION_PATTERN.source, SECTION_PATTERN.flags);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    headings.push(match);
+  }
+
+  if (headings.length === 0) {
+    return { muse: body.trim(), whisper: '' };
+  }
+
+  const sections = { muse: '', whisper: '' };
+  headings.forEach((heading, i) => {
+    const start = heading.index + heading[0].length;
+    const end = i + 1 < headings.length ? headings[i + 1].index : body.length;
+    const kind = heading[1].toLowerCase() as 'muse' | 'whisper';
+    sections[kind] = body.substring(start, end).trim();
+  });
+  return sections;
+}
+
+/**
+ * Read the muse and whisper prompts of a note, leaving out its frontmatter
+ */
+export function parsePromptNote(content: string): { muse: string; whisper: string } {
+  return parseMoodSections(content.replace(FRONTMATTER_PATTERN, ''));
+}
+
+/**
+ * Build a mood from a mood note. Missing prompts fall back to the built-in
+ * mood with the same ID, or the first built-in mood.
+ * @param frontmatter The note's parsed frontmatter
+ * @param content The whole note, frontmatter included
+ * @returns The mood, or null if the note has no prompts at all
+ */
+export function parseMoodNote(
+  file: TFile,
+  frontmatter: Record<string, unknown>,
+  content: string
+): MoodDefinition | null {
+  const { muse, whisper } = parsePromptNote(content);
+  if (!muse && !whisper) {
+    return null;
+  }
+
+  const name = readText(frontmatter['name']) || file.basename;
+  const id = createMoodId(readText(frontmatter['id']) || file.basename, []);
+  const fallback = BUILT_IN_MOODS.find((mood) => mood.id === id) ?? BUILT_IN_MOODS[0];
+
+  return {
+    id,
+    name,
+    description: readText(frontmatter['description']),
+    musePrompt: muse || fallback.musePrompt,
+    whisperPrompt: whisper || fallback.whisperPrompt,
+    keywords: readList(frontmatter['keywords']),
+    folders: readList(frontmatter['folders']),
+    types: readList(frontmatter['types']),
+    sourcePath: file.path,
+  };
+}
+
+/**
+ * Load every mood note in a folder (and its subfolders). Notes that share
+ * an ID with an earlier one are skipped.
+ */
+export async function loadVaultMoods(app: App, folder: string): Promise<MoodDefinition[]> {
+  if (!folder.trim()) {
+    return [];
+  }
+
+  const files = app.vault
+    .getMarkdownFiles()
+    .filter((file) => isInMoodFolder(file.path, folder))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const moods: MoodDefinition[] = [];
+  for (const file of files) {
+    try {
+      const content = await app.vault.cachedRead(file);
+      const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+      const mood = parseMoodNote(file, frontmatter, content);
+
+      if (!mood) {
+        console.warn(`Mood note ${file.path} has no prompt, skipping it`);
+      } else if (moods.some((m) => m.id === mood.id)) {
+        console.warn(`Mood note ${file.path} reuses the mood ID "${mood.id}", skipping it`);
+      } else {
+        moods.push(mood);
+      }
+    } catch (error) {
+      console.error(`Failed to load mood note ${file.path}:`, error);
+    }
+  }
+
+  return moods;
+}
+
+/**
+ * Write a mood out as a mood note
+ */
+export function formatMoodNote(mood: MoodDefinition): string {
+  const frontmatter = stringifyYaml({
+    id: mood.id,
+    name: mood.name,
+    description: mood.description,
+    keywords: mood.keywords,
+    folders: mood.folders,
+    types: mood.types,
+  });
+
+  return `---\n${frontmatter}---\n\n## Muse\n\n${mood.musePrompt.trim()}\n\n## Whisper\n\n${mood.whisperPrompt.trim()}\n`;
+}
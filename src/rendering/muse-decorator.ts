@@ -6,10 +6,11 @@ import {
   ViewUpdate,
   WidgetType,
 } from '@codemirror/view';
-import { RangeSetBuilder } from '@codemirror/state';
+import { Range } from '@codemirror/state';
 
 // Regex patterns for muse blocks
 const INLINE_MUSE_PATTERN = /::muse\[(.*?)\]::/g;
+const CONSULTED_PATTERN = /(::consulted\[ ?)(.*?)( ?\]::)/g;
 const MULTILINE_MUSE_START = /^:::muse\s*$/gm;
 const MULTILINE_MUSE_END = /^:::$/gm;
 
@@ -117,6 +118,31 @@ class StreamingMuseWidget extends WidgetType {
   }
 }
 
+/**
+ * Find where a muse block ends including the consulted-notes line under it,
+ * so dismissing the block removes both
+ */
+function getDismissEnd(doc: string, blockEnd: number): number {
+  const following = /^\n::consulted\[.*?\]::/.exec(doc.substring(blockEnd));
+  return following ? blockEnd + following[0].length : blockEnd;
+}
+
+/**
+ * Label shown in place of the opening of a consulted-notes line
+ */
+class ConsultedLabelWidget extends WidgetType {
+  toDOM(): HTMLElement {
+    const label = document.createElement('span');
+    label.className = 'enchanted-muse-consulted-label';
+    label.textContent = 'Consulted: ';
+    return label;
+  }
+
+  eq(): boolean {
+    return true;
+  }
+}
+
 /**
  * Build decorations for muse blocks
  */
@@ -124,7 +150,7 @@ function buildDecorations(
   view: EditorView,
   showStowed: boolean = false
 ): DecorationSet {
-  const builder = new RangeSetBuilder<Decoration>();
+  const ranges: Range<Decoration>[] = [];
   const doc = view.state.doc.toString();
 
   // Find inline muse blocks
@@ -138,29 +164,25 @@ function buildDecorations(
 
     if (stowedBlocks.has(start) && !showStowed) {
       // Show stowed widget
-      builder.add(
-        start,
-        end,
+      ranges.push(
         Decoration.replace({
           widget: new StowedMuseWidget(() => {
             stowedBlocks.delete(start);
             view.dispatch({ effects: [] }); // Trigger re-render
           }),
-        })
+        }).range(start, end)
       );
     } else {
       // Show full muse content
-      builder.add(
-        start,
-        end,
+      ranges.push(
         Decoration.replace({
           widget: new MuseContentWidget(content, false, () => {
             // Dismiss: remove the block from the document
             view.dispatch({
-              changes: { from: start, to: end, insert: '' },
+              changes: { from: start, to: getDismissEnd(doc, end), insert: '' },
             });
           }),
-        })
+        }).range(start, end)
       );
     }
   }
@@ -186,27 +208,23 @@ function buildDecorations(
       const blockEnd = lineEnd;
 
       if (stowedBlocks.has(blockStart) && !showStowed) {
-        builder.add(
-          blockStart,
-          blockEnd,
+        ranges.push(
           Decoration.replace({
             widget: new StowedMuseWidget(() => {
               stowedBlocks.delete(blockStart);
               view.dispatch({ effects: [] });
             }),
-          })
+          }).range(blockStart, blockEnd)
         );
       } else {
-        builder.add(
-          blockStart,
-          blockEnd,
+        ranges.push(
           Decoration.replace({
             widget: new MuseContentWidget(blockContent.trim(), true, () => {
               view.dispatch({
-                changes: { from: blockStart, to: blockEnd, insert: '' },
+                changes: { from: blockStart, to: getDismissEnd(doc, blockEnd), insert: '' },
               });
             }),
-          })
+          }).range(blockStart, blockEnd)
         );
       }
 
@@ -219,7 +237,23 @@ function buildDecorations(
     pos = lineEnd + 1; // +1 for newline
   }
 
-  return builder.finish();
+  // Notes a muse read: keep the links so Obsidian renders them, hide the syntax around them
+  CONSULTED_PATTERN.lastIndex = 0;
+  while ((match = CONSULTED_PATTERN.exec(doc)) !== null) {
+    const start = match.index;
+    const linksStart = start + match[1].length;
+    const linksEnd = linksStart + match[2].length;
+    const end = start + match[0].length;
+
+    ranges.push(Decoration.replace({ widget: new ConsultedLabelWidget() }).range(start, linksStart));
+    if (linksEnd > linksStart) {
+      ranges.push(Decoration.mark({ class: 'enchanted-muse-consulted' }).range(linksStart, linksEnd));
+    }
+    ranges.push(Decoration.replace({}).range(linksEnd, end));
+  }
+
+  // Blocks are found in several passes, so sort them into document order
+  return Decoration.set(ranges, true);
 }
 
 /**
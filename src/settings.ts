@@ -1,11 +1,103 @@
-import { App, PluginSettingTab, Setting, Notice, DropdownComponent } from 'obsidian';
+import {
+  App,
+  PluginSettingTab,
+  Setting,
+  Notice,
+  ButtonComponent,
+  DropdownComponent,
+  TextComponent,
+  Platform,
+  SecretComponent,
+  apiVersion,
+  normalizePath,
+} from 'obsidian';
 import type EnchantedNotesPlugin from './main';
-import { EnchantedNotesSettings, ProviderType } from './types';
-import { CLAUDE_MODELS } from './api/claude';
+import {
+  ApiKeySource,
+  DEFAULT_SETTINGS,
+  EnchantedNotesSettings,
+  GenerationParams,
+  InteractionStyle,
+  MockSimulatedError,
+  ModelPrice,
+  Mood,
+  MoodDefinition,
+  MoodGenerationOverride,
+  ProviderType,
+  RoutingRule,
+} from './types';
+import { CLAUDE_MODELS, ClaudeModelInfo } from './api/claude';
+import { createMoodId, formatMoodNote } from './moods';
+import { DEFAULT_MODEL_PRICES, formatCost, toDateKey } from './api/ledger';
+import { getErrorMessage } from './api/errors';
+import { isAbortError } from './api/provider';
+import { getPromptVariables } from './detection/context';
+import { LANGUAGE_NAMES } from './detection/language';
+import {
+  API_KEY_SOURCE_LABELS,
+  CLAUDE_SECRET_ID,
+  detectSyncedVault,
+  getSecretStorage,
+  isInsideVault,
+  maskApiKey,
+  resolveClaudeApiKey,
+} from './utils/secrets';
+import {
+  ConnectionDiagnostics,
+  DIAGNOSTIC_LABELS,
+  DIAGNOSTIC_SYMBOLS,
+  createDiagnostics,
+  formatDiagnosticsReport,
+  isHealthy,
+  setCheck,
+} from './api/diagnostics';
+
+/**
+ * Display labels for each provider type
+ */
+const PROVIDER_LABELS: Record<ProviderType, string> = {
+  claude: 'Claude (Anthropic)',
+  ollama: 'Ollama (Local)',
+  openai: 'OpenAI-compatible (LM Studio, llama.cpp, vLLM)',
+  mock: 'Mock (record/replay, offline)',
+};
+
+/**
+ * Parse an optional number field, empty or invalid input means "unset"
+ */
+function parseOptionalNumber(value: string): number | undefined {
+  const number = parseFloat(value);
+  return value.trim() === '' || isNaN(number) ? undefined : number;
+}
+
+/**
+ * Parse comma-separated stop sequences, with \n standing for a newline
+ */
+function parseStopSequences(value: string): string[] | undefined {
+  const sequences = value
+    .split(',')
+    .map((sequence) => sequence.trim().replace(/\\n/g, '\n'))
+    .filter((sequence) => sequence.length > 0);
+  return sequences.length > 0 ? sequences : undefined;
+}
+
+/**
+ * Format stop sequences for a text field
+ */
+function formatStopSequences(sequences: string[] | undefined): string {
+  return (sequences ?? []).map((sequence) => sequence.replace(/\n/g, '\\n')).join(', ');
+}
 
 export class EnchantedNotesSettingTab extends PluginSettingTab {
   plugin: EnchantedNotesPlugin;
   private ollamaModelDropdown: DropdownComponent | null = null;
+  private ollamaDetailsEl: HTMLElement | null = null;
+  private ollamaPullController: AbortController | null = null;
+  private openaiModelDropdown: DropdownComponent | null = null;
+  private editingMoodId: string | null = null;
+  private previewMoodId: string | null = null;
+  private previewStyle: InteractionStyle = 'muse';
+  private refreshPromptPreview: (() => void) | null = null;
 
   constructor(app: App, plugin: EnchantedNotesPlugin) {
     super(app, plugin);
@@ -25,8 +117,7 @@ export class EnchantedNotesSettingTab extends PluginSettingTab {
       .setDesc('Choose your LLM provider')
       .addDropdown((dropdown) =>
         dropdown
-          .addOption('claude', 'Claude (Anthropic)')
-          .addOption('ollama', 'Ollama (Local)')
+          .addOptions(PROVIDER_LABELS)
           .setValue(this.plugin.settings.provider)
           .onChange(async (value) => {
             this.plugin.settings.provider = value as ProviderType;
@@ -37,35 +128,25 @@ export class EnchantedNotesSettingTab extends PluginSettingTab {
       );
 
     // Provider-specific settings
-    if (this.plugin.settings.provider === 'claude') {
-      this.displayClaudeSettings(containerEl);
-    } else {
-      this.displayOllamaSettings(containerEl);
-    }
+    this.displayProviderSettings(containerEl, this.plugin.settings.provider);
+
+    // Fallback chain
+    this.displayFallbackSettings(containerEl);
 
     // Test Connection Button
-    new Setting(containerEl)
-      .setName('Test Connection')
-      .setDesc('Verify connection to the selected provider')
-      .addButton((button) =>
-        button
-          .setButtonText('Test Connection')
-          .onClick(async () => {
-            button.setDisabled(true);
-            button.setButtonText('Testing...');
+    this.displayConnectionTest(containerEl);
 
-            const success = await this.plugin.testConnection();
+    // Model Routing Section
+    this.displayRoutingSettings(containerEl);
 
-            if (success) {
-              new Notice('Connection successful!');
-            } else {
-              new Notice('Connection failed. Check your settings.');
-            }
+    // Generation Section
+    this.displayGenerationSettings(containerEl);
 
-            button.setDisabled(false);
-            button.setButtonText('Test Connection');
-          })
-      );
+    // Usage & Spending Section
+    this.displayUsageSettings(containerEl);
+
+    // Response Cache Section
+    this.displayResponseCacheSettings(containerEl);
 
     // Behavior Section
     containerEl.createEl('h2', { text: 'Behavior' });
@@ -91,12 +172,36 @@ export class EnchantedNotesSettingTab extends PluginSettingTab {
       .addDropdown((dropdown) =>
         dropdown
           .addOption('auto', 'Auto-detect')
-          .addOption('reflect', 'Reflect (journaling)')
-          .addOption('think', 'Think (essays/ideas)')
-          .addOption('plan', 'Plan (todos/planning)')
+          .addOptions(this.getMoodOptions(true))
           .setValue(this.plugin.settings.defaultMood)
           .onChange(async (value) => {
-            this.plugin.settings.defaultMood = value as 'reflect' | 'think' | 'plan' | 'auto';
+            this.plugin.settings.defaultMood = value as Mood | 'auto';
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Respond in the note\'s language')
+      .setDesc(
+        'Detect the language each note is written in and ask for muses and whispers in it. enchant-language in a note\'s frontmatter (a code like "de" or a name like "German") always wins.'
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.detectLanguage).onChange(async (value) => {
+          this.plugin.settings.detectLanguage = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Default language')
+      .setDesc('Used when a note is too short to tell, or detection is off')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('', 'Not set (leave it to the model)')
+          .addOptions(LANGUAGE_NAMES)
+          .setValue(this.plugin.settings.defaultLanguage)
+          .onChange(async (value) => {
+            this.plugin.settings.defaultLanguage = value;
             await this.plugin.saveSettings();
           })
       );
@@ -116,6 +221,20 @@ export class EnchantedNotesSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName('Whisper confidence')
+      .setDesc('Only show whispers the model is at least this sure are worth noting (0 shows every whisper, 1 almost none)')
+      .addSlider((slider) =>
+        slider
+          .setLimits(0, 1, 0.05)
+          .setValue(this.plugin.settings.whisperMinConfidence)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.whisperMinConfidence = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName('Enable linked note context')
       .setDesc('Include content from linked notes in AI context')
@@ -143,6 +262,37 @@ export class EnchantedNotesSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName('Let muses search the vault')
+      .setDesc(
+        'Muses can search your notes, read them, list backlinks and read today\'s daily note before responding. Notes they read are listed under the response. Works with Claude and Ollama models that support tools; uses more tokens.'
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.museToolsEnabled)
+          .onChange(async (value) => {
+            this.plugin.settings.museToolsEnabled = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Vault lookups per response')
+      .setDesc('Most rounds of searching and reading before the muse has to respond')
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 5, 1)
+          .setValue(this.plugin.settings.museToolRounds)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.museToolRounds = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Moods Section
+    this.displayMoodSettings(containerEl);
+
     // Keyboard Shortcuts Section
     containerEl.createEl('h2', { text: 'Keyboard Shortcuts' });
 
@@ -193,7 +343,7 @@ export class EnchantedNotesSettingTab extends PluginSettingTab {
       });
 
       statsContainer.createEl('p', {
-        text: `Tokens this session: ${stats.tokensThisSession}`,
+        text: `Tokens this session: ${stats.tokensThisSession} (${stats.inputTokensThisSession} in / ${stats.outputTokensThisSession} out)`,
       });
       statsContainer.createEl('p', {
         text: `Tokens today: ${stats.tokensToday}`,
@@ -201,6 +351,23 @@ export class EnchantedNotesSettingTab extends PluginSettingTab {
       statsContainer.createEl('p', {
         text: `Last response time: ${stats.lastResponseTime}ms`,
       });
+      statsContainer.createEl('p', {
+        text: `Last generation speed: ${stats.lastTokensPerSecond} tokens/sec`,
+      });
+      statsContainer.createEl('p', {
+        text: `Prompt cache this session: ${stats.cacheReadTokensThisSession} read / ${stats.cacheWriteTokensThisSession} written`,
+      });
+      statsContainer.createEl('p', {
+        text: `Last prompt cache: ${stats.lastCacheReadTokens} read / ${stats.lastCacheWriteTokens} written`,
+      });
+      statsContainer.createEl('p', {
+        text: `Response cache hits this session: ${stats.responseCacheHitsThisSession}`,
+      });
+      if (stats.lastLoadTime > 0) {
+        statsContainer.createEl('p', {
+          text: `Last model load time: ${Math.round(stats.lastLoadTime)}ms`,
+        });
+      }
       statsContainer.createEl('p', {
         text: `Current context size: ${stats.currentContextSize} chars`,
       });
@@ -230,82 +397,1749 @@ export class EnchantedNotesSettingTab extends PluginSettingTab {
   }
 
   /**
-   * Display Claude-specific settings
+   * Display the connection test, which renders a diagnostic checklist
+   * and can copy it as a plain-text report
    */
-  private displayClaudeSettings(containerEl: HTMLElement): void {
+  private displayConnectionTest(containerEl: HTMLElement): void {
+    let report = '';
+    let copyButton: ButtonComponent | null = null;
+
+    new Setting(containerEl)
+      .setName('Test Connection')
+      .setDesc('Check the selected provider step by step')
+      .addButton((button) => {
+        copyButton = button;
+        button
+          .setButtonText('Copy report')
+          .onClick(async () => {
+            await navigator.clipboard.writeText(report);
+            new Notice('Connection report copied');
+          });
+        button.buttonEl.hide();
+      })
+      .addButton((button) =>
+        button
+          .setButtonText('Test Connection')
+          .onClick(async () => {
+            button.setDisabled(true);
+            button.setButtonText('Testing...');
+
+            try {
+              let diagnostics: ConnectionDiagnostics | null;
+              try {
+                diagnostics = await this.plugin.testConnection();
+              } catch (error) {
+                // The test itself failed, e.g. the API key file couldn't be read
+                console.error('Connection test failed:', error);
+                diagnostics = createDiagnostics(PROVIDER_LABELS[this.plugin.settings.provider], '', '');
+                setCheck(diagnostics, 'reachability', 'fail', getErrorMessage(error));
+              }
+              if (!diagnostics) {
+                new Notice('Connection failed. Check your settings.');
+                return;
+              }
+
+              report = formatDiagnosticsReport(diagnostics, [
+                `Plugin: ${this.plugin.manifest.version}`,
+                `Obsidian: ${apiVersion}`,
+              ]);
+              this.renderDiagnostics(reportEl, diagnostics);
+              reportEl.show();
+              copyButton?.buttonEl.show();
+
+              new Notice(isHealthy(diagnostics) ? 'Connection successful!' : 'Connection problems found, see settings.');
+            } finally {
+              button.setDisabled(false);
+              button.setButtonText('Test Connection');
+            }
+          })
+      );
+
+    const reportEl = containerEl.createDiv({ cls: 'enchanted-notes-diagnostics' });
+    reportEl.hide();
+  }
+
+  /**
+   * Render a connection report as a checklist
+   */
+  private renderDiagnostics(el: HTMLElement, diagnostics: ConnectionDiagnostics): void {
+    el.empty();
+    el.createEl('p', {
+      text: `${diagnostics.provider}${diagnostics.model ? ` · ${diagnostics.model}` : ''}`,
+      cls: 'enchanted-notes-diagnostics-title',
+    });
+
+    const list = el.createEl('ul');
+    for (const check of diagnostics.checks) {
+      const item = list.createEl('li', { cls: `enchanted-notes-diagnostic-${check.status}` });
+      item.createSpan({ text: DIAGNOSTIC_SYMBOLS[check.status], cls: 'enchanted-notes-diagnostic-symbol' });
+      item.createSpan({ text: `${DIAGNOSTIC_LABELS[check.id]}: `, cls: 'enchanted-notes-diagnostic-label' });
+      item.createSpan({ text: check.detail });
+    }
+  }
+
+  /**
+   * Dropdown options for each mood
+   * @param describe Add each mood's description to its name
+   */
+  private getMoodOptions(describe: boolean): Record<string, string> {
+    const moods = this.plugin.moods;
+    const options: Record<string, string> = {};
+    for (const mood of moods.getAll()) {
+      options[mood.id] = describe ? moods.getLabel(mood) : mood.name;
+    }
+    return options;
+  }
+
+  /**
+   * Display the mood folder and the mood list, with the editor open for the
+   * mood being edited
+   */
+  private displayMoodSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Moods' });
+
+    const settings = this.plugin.settings;
+    const registry = this.plugin.moods;
+    const configured = registry.getConfigured();
+    const ids = registry.getAll().map((mood) => mood.id);
+
+    const saveMoods = async (next: MoodDefinition[], refresh: boolean) => {
+      settings.moods = next;
+      await this.plugin.saveSettings();
+      this.plugin.updateMoods();
+      if (refresh) {
+        this.display();
+      }
+    };
+
     new Setting(containerEl)
-      .setName('Claude API Key')
-      .setDesc('Your Anthropic API key. Get one at console.anthropic.com')
+      .setName('Mood folder')
+      .setDesc(
+        'Notes in this folder define moods: name, description, keywords, folders and types in frontmatter, and the prompts under "## Muse" and "## Whisper" headings. Edits apply as soon as you save the note. A mood note replaces the mood below with the same ID.'
+      )
       .addText((text) =>
         text
-          .setPlaceholder('sk-ant-...')
-          .setValue(this.plugin.settings.claudeApiKey)
+          .setPlaceholder('Moods')
+          .setValue(settings.moodFolder)
           .onChange(async (value) => {
-            this.plugin.settings.claudeApiKey = value;
+            settings.moodFolder = value.trim();
             await this.plugin.saveSettings();
-            this.plugin.updateProviderConfig();
+            await this.plugin.reloadMoodNotes();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('Export to notes')
+          .setTooltip('Write each mood below to a note in the mood folder')
+          .onClick(async () => {
+            await this.exportMoodNotes(configured);
+            this.display();
           })
       );
 
     new Setting(containerEl)
-      .setName('Model')
-      .setDesc('The Claude model to use for responses')
-      .addDropdown((dropdown) => {
-        for (const model of CLAUDE_MODELS) {
-          const label =
-            model === 'claude-sonnet-4-20250514'
-              ? 'Claude Sonnet 4 (Recommended)'
-              : model === 'claude-opus-4-20250514'
-                ? 'Claude Opus 4'
-                : model === 'claude-3-5-sonnet-20241022'
-                  ? 'Claude 3.5 Sonnet'
-                  : 'Claude 3.5 Haiku (Faster)';
-          dropdown.addOption(model, label);
-        }
-        dropdown.setValue(this.plugin.settings.claudeModel).onChange(async (value) => {
-          this.plugin.settings.claudeModel = value;
+      .setName('Your name')
+      .setDesc('Used for {{user.name}} in mood prompts')
+      .addText((text) =>
+        text.setValue(settings.userName).onChange(async (value) => {
+          settings.userName = value;
           await this.plugin.saveSettings();
-          this.plugin.updateProviderConfig();
+          this.refreshPromptPreview?.();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Moods')
+      .setDesc(
+        'Each mood has its own muse and whisper prompts. A note takes the mood named by enchant-mood in its frontmatter, or the first mood matching its type, folder or keywords. Every mood gets a "Set Mood" command.'
+      )
+      .addButton((button) =>
+        button.setButtonText('Add mood').onClick(async () => {
+          const mood: MoodDefinition = {
+            id: createMoodId('New mood', ids),
+            name: 'New mood',
+            description: '',
+            musePrompt: 'You are a thinking partner helping someone write. Keep responses brief (1-2 sentences).',
+            whisperPrompt: 'You are observing someone writing. Offer brief observations as margin notes, one short sentence each.',
+            keywords: [],
+            folders: [],
+            types: [],
+          };
+          this.editingMoodId = mood.id;
+          this.previewMoodId = mood.id;
+          await saveMoods([...configured, mood], true);
+        })
+      );
+
+    for (const mood of registry.getAll()) {
+      const sourcePath = mood.sourcePath;
+      const editing = !sourcePath && this.editingMoodId === mood.id;
+      const details = sourcePath ? `from ${sourcePath}` : `enchant-mood: ${mood.id}`;
+
+      const setting = new Setting(containerEl)
+        .setName(mood.name)
+        .setDesc(mood.description ? `${mood.description} · ${details}` : details);
+
+      if (sourcePath) {
+        setting.addButton((button) =>
+          button.setButtonText('Open').onClick(() => {
+            this.app.workspace.openLinkText(sourcePath, '', true);
+          })
+        );
+      } else {
+        setting.addButton((button) =>
+          button.setButtonText(editing ? 'Done' : 'Edit').onClick(() => {
+            this.editingMoodId = editing ? null : mood.id;
+            this.previewMoodId = mood.id;
+            this.display();
+          })
+        );
+      }
+
+      setting
+        .addExtraButton((button) =>
+          button
+            .setIcon('copy')
+            .setTooltip('Duplicate mood')
+            .onClick(async () => {
+              const name = `${mood.name} copy`;
+              const copy: MoodDefinition = {
+                ...mood,
+                id: createMoodId(name, ids),
+                name,
+                keywords: [...mood.keywords],
+                folders: [...mood.folders],
+                types: [...mood.types],
+                sourcePath: undefined,
+              };
+              // Keep the copy next to the original when it is in the list
+              const index = configured.findIndex((m) => m.id === mood.id);
+              const next =
+                index === -1
+                  ? [...configured, copy]
+                  : [...configured.slice(0, index + 1), copy, ...configured.slice(index + 1)];
+              this.editingMoodId = copy.id;
+              this.previewMoodId = copy.id;
+              await saveMoods(next, true);
+            })
+        )
+        .addExtraButton((button) => {
+          const canDelete = !sourcePath && configured.length > 1;
+          button
+            .setIcon('x')
+            .setTooltip(
+              sourcePath
+                ? 'Delete the mood note to remove this mood'
+                : canDelete
+                  ? 'Delete mood'
+                  : 'The last mood can\'t be deleted'
+            )
+            .setDisabled(!canDelete)
+            .onClick(async () => {
+              if (!canDelete) {
+                return;
+              }
+              await saveMoods(
+                configured.filter((m) => m.id !== mood.id),
+                true
+              );
+            });
         });
-      });
+
+      if (editing) {
+        this.displayMoodEditor(containerEl, mood, saveMoods);
+      }
+    }
+
+    this.displayPromptPreview(containerEl);
   }
 
   /**
-   * Display Ollama-specific settings
+   * Display a mood's prompt rendered for the active note, updated as the
+   * prompt is edited
    */
-  private displayOllamaSettings(containerEl: HTMLElement): void {
+  private displayPromptPreview(containerEl: HTMLElement): void {
+    const registry = this.plugin.moods;
+    const file = this.app.workspace.getActiveFile();
+    const moodId = registry.resolve(this.previewMoodId ?? '').id;
+
     new Setting(containerEl)
-      .setName('Ollama Base URL')
-      .setDesc('The URL where Ollama is running')
+      .setName('Prompt preview')
+      .setDesc(
+        `${file ? `Rendered for ${file.path}.` : 'Open a note to preview its variables.'} Prompts can use {{note.title}}, {{note.folder}}, {{frontmatter.<key>}}, {{tags}}, {{date}}, {{weekday}}, {{user.name}}, {{mood.name}} and {{language}}, and {{#if …}}…{{else}}…{{/if}} blocks.`
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(this.getMoodOptions(false))
+          .setValue(moodId)
+          .onChange((value) => {
+            this.previewMoodId = value;
+            this.refreshPromptPreview?.();
+          })
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ muse: 'Muse', whisper: 'Whisper' })
+          .setValue(this.previewStyle)
+          .onChange((value) => {
+            this.previewStyle = value as InteractionStyle;
+            this.refreshPromptPreview?.();
+          })
+      );
+
+    const previewEl = containerEl.createEl('pre', { cls: 'enchanted-notes-prompt-preview' });
+    this.refreshPromptPreview = () => {
+      const variables = getPromptVariables(this.app, file, this.plugin.settings);
+      previewEl.setText(
+        registry.getSystemPrompt(this.previewMoodId ?? moodId, this.previewStyle, variables)
+      );
+    };
+    this.refreshPromptPreview();
+  }
+
+  /**
+   * Write moods to notes in the mood folder, skipping moods that already have one
+   */
+  private async exportMoodNotes(moods: MoodDefinition[]): Promise<void> {
+    const folder = normalizePath(this.plugin.settings.moodFolder || 'Moods');
+    const vault = this.app.vault;
+
+    try {
+      if (!vault.getAbstractFileByPath(folder)) {
+        await vault.createFolder(folder);
+      }
+
+      let written = 0;
+      for (const mood of moods) {
+        const path = normalizePath(`${folder}/${mood.name.replace(/[\\/:*?"<>|#^[\]]/g, '-')}.md`);
+        const hasNote = this.plugin.moods.getAll().some((m) => m.id === mood.id && m.sourcePath);
+        if (hasNote || vault.getAbstractFileByPath(path)) {
+          continue;
+        }
+        await vault.create(path, formatMoodNote(mood));
+        written++;
+      }
+
+      if (!this.plugin.settings.moodFolder) {
+        this.plugin.settings.moodFolder = folder;
+        await this.plugin.saveSettings();
+      }
+      await this.plugin.reloadMoodNotes();
+      new Notice(`Exported ${written} mood${written === 1 ? '' : 's'} to ${folder}`);
+    } catch (error) {
+      new Notice(`Failed to export moods: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Display the fields of one mood
+   */
+  private displayMoodEditor(
+    containerEl: HTMLElement,
+    mood: MoodDefinition,
+    saveMoods: (next: MoodDefinition[], refresh: boolean) => Promise<void>
+  ): void {
+    const editorEl = containerEl.createDiv({ cls: 'enchanted-notes-mood-editor' });
+
+    const updateMood = async (changes: Partial<MoodDefinition>) => {
+      // Read the current list, earlier edits to this mood don't re-render it
+      const next = this.plugin.moods
+        .getConfigured()
+        .map((m) => (m.id === mood.id ? { ...m, ...changes } : m));
+      await saveMoods(next, false);
+      this.refreshPromptPreview?.();
+    };
+    const parseList = (value: string, separator: RegExp) =>
+      value
+        .split(separator)
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+
+    new Setting(editorEl).setName('Name').addText((text) =>
+      text.setValue(mood.name).onChange(async (value) => {
+        await updateMood({ name: value.trim() || mood.id });
+      })
+    );
+
+    new Setting(editorEl)
+      .setName('Description')
+      .setDesc('What the mood is for, shown next to its name')
       .addText((text) =>
         text
-          .setPlaceholder('http://localhost:11434')
-          .setValue(this.plugin.settings.ollamaBaseUrl)
+          .setPlaceholder('code reviews')
+          .setValue(mood.description)
           .onChange(async (value) => {
-            this.plugin.settings.ollamaBaseUrl = value;
-            await this.plugin.saveSettings();
-            this.plugin.updateProviderConfig();
+            await updateMood({ description: value.trim() });
           })
       );
 
-    // Model dropdown with refresh button
-    const modelSetting = new Setting(containerEl)
-      .setName('Model')
-      .setDesc('Select an Ollama model (click Refresh to load available models)');
+    new Setting(editorEl)
+      .setName('Muse prompt')
+      .setDesc('System prompt for muses in this mood')
+      .addTextArea((text) => {
+        text.inputEl.rows = 8;
+        text.setValue(mood.musePrompt).onChange(async (value) => {
+          await updateMood({ musePrompt: value });
+        });
+      });
 
-    modelSetting.addDropdown((dropdown) => {
-      this.ollamaModelDropdown = dropdown;
+    new Setting(editorEl)
+      .setName('Whisper prompt')
+      .setDesc('System prompt for whispers in this mood')
+      .addTextArea((text) => {
+        text.inputEl.rows = 8;
+        text.setValue(mood.whisperPrompt).onChange(async (value) => {
+          await updateMood({ whisperPrompt: value });
+        });
+      });
 
-      if (this.plugin.settings.ollamaModel) {
-        dropdown.addOption(this.plugin.settings.ollamaModel, this.plugin.settings.ollamaModel);
-        dropdown.setValue(this.plugin.settings.ollamaModel);
-      } else {
-        dropdown.addOption('', 'Select a model...');
-        dropdown.setValue('');
-      }
+    new Setting(editorEl)
+      .setName('Keywords')
+      .setDesc(
+        'One per line. Notes where these appear at least twice get this mood. Phrases match whole words, ignoring case; write /pattern/flags for a regular expression. These are not translated, so add phrases in each language you write in.'
+      )
+      .addTextArea((text) => {
+        text.inputEl.rows = 4;
+        text.setValue(mood.keywords.join('\n')).onChange(async (value) => {
+          await updateMood({ keywords: parseList(value, /\n/) });
+        });
+      });
 
-      dropdown.onChange(async (value) => {
-        this.plugin.settings.ollamaModel = value;
+    new Setting(editorEl)
+      .setName('Folders')
+      .setDesc('Comma-separated folder names. Notes in a folder with one of these names get this mood.')
+      .addText((text) =>
+        text
+          .setPlaceholder('journal, diary')
+          .setValue(mood.folders.join(', '))
+          .onChange(async (value) => {
+            await updateMood({ folders: parseList(value, /,/) });
+          })
+      );
+
+    new Setting(editorEl)
+      .setName('Note types')
+      .setDesc('Comma-separated values of the type frontmatter property that get this mood')
+      .addText((text) =>
+        text
+          .setPlaceholder('journal, reflection')
+          .setValue(mood.types.join(', '))
+          .onChange(async (value) => {
+            await updateMood({ types: parseList(value, /,/) });
+          })
+      );
+  }
+
+  /**
+   * Display the response cache settings
+   */
+  private displayResponseCacheSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Response Cache' });
+
+    const settings = this.plugin.settings;
+
+    new Setting(containerEl)
+      .setName('Cache responses')
+      .setDesc(
+        'Reuse the response to a request identical to an earlier one (same provider, model, prompt and note text) instead of sending it again. Muses that look things up in the vault are never cached.'
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(settings.responseCacheEnabled).onChange(async (value) => {
+          settings.responseCacheEnabled = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Keep responses for')
+      .setDesc('Hours before a cached response expires')
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 168, 1)
+          .setValue(settings.responseCacheTtlHours)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            settings.responseCacheTtlHours = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Most cached responses')
+      .setDesc('The least recently used responses are removed past this many')
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.responseCacheMaxEntries.toString())
+          .setValue(settings.responseCacheMaxEntries.toString())
+          .onChange(async (value) => {
+            const max = parseInt(value, 10);
+            if (!isNaN(max) && max > 0) {
+              settings.responseCacheMaxEntries = max;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    const clearSetting = new Setting(containerEl)
+      .setName('Clear cache')
+      .addButton((button) =>
+        button.setButtonText('Clear').onClick(async () => {
+          const cache = this.plugin.responseCache;
+          if (!cache) {
+            return;
+          }
+          try {
+            const count = await cache.clear();
+            new Notice(`Cleared ${count} cached response${count === 1 ? '' : 's'}`);
+          } catch (error) {
+            new Notice(`Failed to clear the response cache: ${getErrorMessage(error)}`);
+          }
+          this.display();
+        })
+      );
+
+    this.plugin.responseCache?.getSize().then((size) => {
+      clearSetting.setDesc(`${size} response${size === 1 ? '' : 's'} cached`);
+    });
+  }
+
+  /**
+   * Display the settings for one provider type
+   */
+  private displayProviderSettings(containerEl: HTMLElement, providerType: ProviderType): void {
+    switch (providerType) {
+      case 'claude':
+        this.displayClaudeSettings(containerEl);
+        break;
+      case 'ollama':
+        this.displayOllamaSettings(containerEl);
+        break;
+      case 'openai':
+        this.displayOpenAISettings(containerEl);
+        break;
+      case 'mock':
+        this.displayMockSettings(containerEl);
+        break;
+    }
+
+    this.displayConcurrencySetting(containerEl, providerType);
+  }
+
+  /**
+   * Display how many requests a provider may run at once
+   */
+  private displayConcurrencySetting(containerEl: HTMLElement, providerType: ProviderType): void {
+    const settings = this.plugin.settings;
+
+    new Setting(containerEl)
+      .setName('Concurrent requests')
+      .setDesc(
+        'Most requests this provider runs at once. Others wait their turn: summoned muses first, then muses after a pause, then whispers. Keep this at 1 for a local model on a single GPU.'
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 4, 1)
+          .setValue(settings.providerConcurrency[providerType] ?? DEFAULT_SETTINGS.providerConcurrency[providerType])
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            settings.providerConcurrency = { ...settings.providerConcurrency, [providerType]: value };
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  /**
+   * Display the ordered fallback provider list, plus settings for each fallback
+   */
+  private displayFallbackSettings(containerEl: HTMLElement): void {
+    const settings = this.plugin.settings;
+    const fallbacks = settings.fallbackProviders;
+    const allTypes = Object.keys(PROVIDER_LABELS) as ProviderType[];
+    const unusedTypes = allTypes.filter(
+      (type) => type !== settings.provider && !fallbacks.includes(type)
+    );
+
+    const saveFallbacks = async (next: ProviderType[]) => {
+      settings.fallbackProviders = next;
+      await this.plugin.saveSettings();
+      this.plugin.updateRouting();
+      this.display();
+    };
+
+    new Setting(containerEl)
+      .setName('Fallback providers')
+      .setDesc(
+        'Tried in order when the primary provider is unreachable or overloaded. The status bar shows which one answered.'
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('Add fallback')
+          .setDisabled(unusedTypes.length === 0)
+          .onClick(async () => {
+            await saveFallbacks([...fallbacks, unusedTypes[0]]);
+          })
+      );
+
+    fallbacks.forEach((type, index) => {
+      new Setting(containerEl)
+        .setName(`Fallback ${index + 1}`)
+        .addDropdown((dropdown) => {
+          for (const option of allTypes) {
+            if (option === type || (option !== settings.provider && !fallbacks.includes(option))) {
+              dropdown.addOption(option, PROVIDER_LABELS[option]);
+            }
+          }
+          dropdown.setValue(type).onChange(async (value) => {
+            const next = [...fallbacks];
+            next[index] = value as ProviderType;
+            await saveFallbacks(next);
+          });
+        })
+        .addExtraButton((button) =>
+          button
+            .setIcon('arrow-up')
+            .setTooltip('Try earlier')
+            .setDisabled(index === 0)
+            .onClick(async () => {
+              const next = [...fallbacks];
+              [next[index - 1], next[index]] = [next[index], next[index - 1]];
+              await saveFallbacks(next);
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('arrow-down')
+            .setTooltip('Try later')
+            .setDisabled(index === fallbacks.length - 1)
+            .onClick(async () => {
+              const next = [...fallbacks];
+              [next[index], next[index + 1]] = [next[index + 1], next[index]];
+              await saveFallbacks(next);
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('x')
+            .setTooltip('Remove fallback')
+            .onClick(async () => {
+              await saveFallbacks(fallbacks.filter((_, i) => i !== index));
+            })
+        );
+    });
+
+    // Fallbacks need their own connection settings
+    for (const type of fallbacks) {
+      if (type === settings.provider) {
+        continue;
+      }
+      containerEl.createEl('h3', { text: `${PROVIDER_LABELS[type]} (fallback)` });
+      this.displayProviderSettings(containerEl, type);
+    }
+  }
+
+  /**
+   * Display routing rules that send a style and mood to a specific provider and model
+   */
+  private displayRoutingSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Model Routing' });
+
+    const settings = this.plugin.settings;
+    const rules = settings.routingRules;
+
+    const saveRules = async (next: RoutingRule[], refresh: boolean) => {
+      settings.routingRules = next;
+      await this.plugin.saveSettings();
+      this.plugin.updateRouting();
+      if (refresh) {
+        this.display();
+      }
+    };
+
+    new Setting(containerEl)
+      .setName('Routing rules')
+      .setDesc(
+        'Send a style and mood to a specific provider and model, e.g. whispers to a small local model. The first matching rule wins; unmatched requests use the provider above. Leave the model empty to use that provider\'s configured model.'
+      )
+      .addButton((button) =>
+        button.setButtonText('Add rule').onClick(async () => {
+          const rule: RoutingRule = {
+            style: 'whisper',
+            mood: 'any',
+            provider: settings.provider,
+            model: '',
+          };
+          await saveRules([...rules, rule], true);
+        })
+      );
+
+    rules.forEach((rule, index) => {
+      const updateRule = async (changes: Partial<RoutingRule>) => {
+        // Read the current list, earlier edits to this row don't re-render it
+        const next = [...settings.routingRules];
+        next[index] = { ...next[index], ...changes };
+        await saveRules(next, false);
+      };
+
+      new Setting(containerEl)
+        .setName(`Rule ${index + 1}`)
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption('any', 'Any style')
+            .addOption('muse', 'Muse')
+            .addOption('whisper', 'Whisper')
+            .setValue(rule.style)
+            .onChange(async (value) => {
+              await updateRule({ style: value as InteractionStyle | 'any' });
+            })
+        )
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption('any', 'Any mood')
+            .addOptions(this.getMoodOptions(false))
+            .setValue(rule.mood)
+            .onChange(async (value) => {
+              await updateRule({ mood: value as Mood | 'any' });
+            })
+        )
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions(PROVIDER_LABELS)
+            .setValue(rule.provider)
+            .onChange(async (value) => {
+              await updateRule({ provider: value as ProviderType });
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('Provider default')
+            .setValue(rule.model)
+            .onChange(async (value) => {
+              await updateRule({ model: value.trim() });
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('x')
+            .setTooltip('Remove rule')
+            .onClick(async () => {
+              await saveRules(
+                rules.filter((_, i) => i !== index),
+                true
+              );
+            })
+        );
+    });
+  }
+
+  /**
+   * Display generation parameters per style and the per-mood overrides
+   */
+  private displayGenerationSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Generation' });
+
+    containerEl.createEl('p', {
+      text: 'Leave a field empty to use the model\'s default. Stop sequences are comma-separated; use \\n for a newline.',
+      cls: 'setting-item-description',
+    });
+
+    const settings = this.plugin.settings;
+    const styles: Array<{ style: InteractionStyle; label: string }> = [
+      { style: 'muse', label: 'Muse' },
+      { style: 'whisper', label: 'Whisper' },
+    ];
+
+    for (const { style, label } of styles) {
+      const updateParams = async (changes: Partial<GenerationParams>) => {
+        settings.generationParams = {
+          ...settings.generationParams,
+          [style]: { ...settings.generationParams[style], ...changes },
+        };
+        await this.plugin.saveSettings();
+      };
+      const params = settings.generationParams[style];
+
+      containerEl.createEl('h3', { text: label });
+
+      new Setting(containerEl)
+        .setName('Max tokens')
+        .setDesc('Longest response to generate')
+        .addText((text) =>
+          text
+            .setPlaceholder('Model default')
+            .setValue(params.maxTokens?.toString() ?? '')
+            .onChange(async (value) => {
+              await updateParams({ maxTokens: parseOptionalNumber(value) });
+            })
+        );
+
+      new Setting(containerEl)
+        .setName('Temperature')
+        .setDesc('Higher is more varied, lower is more focused (0-1 for Claude)')
+        .addText((text) =>
+          text
+            .setPlaceholder('Model default')
+            .setValue(params.temperature?.toString() ?? '')
+            .onChange(async (value) => {
+              await updateParams({ temperature: parseOptionalNumber(value) });
+            })
+        );
+
+      new Setting(containerEl)
+        .setName('Top P')
+        .setDesc('Nucleus sampling cutoff (0-1). Claude takes only one of temperature and top P, and uses temperature when both are set.')
+        .addText((text) =>
+          text
+            .setPlaceholder('Model default')
+            .setValue(params.topP?.toString() ?? '')
+            .onChange(async (value) => {
+              await updateParams({ topP: parseOptionalNumber(value) });
+            })
+        );
+
+      new Setting(containerEl)
+        .setName('Stop sequences')
+        .setDesc('Stop generating when one of these appears')
+        .addText((text) =>
+          text
+            .setPlaceholder('None')
+            .setValue(formatStopSequences(params.stopSequences))
+            .onChange(async (value) => {
+              await updateParams({ stopSequences: parseStopSequences(value) });
+            })
+        );
+    }
+
+    const overrides = settings.moodGenerationOverrides;
+
+    const saveOverrides = async (next: MoodGenerationOverride[], refresh: boolean) => {
+      settings.moodGenerationOverrides = next;
+      await this.plugin.saveSettings();
+      if (refresh) {
+        this.display();
+      }
+    };
+
+    containerEl.createEl('h3', { text: 'Mood overrides' });
+
+    new Setting(containerEl)
+      .setName('Mood overrides')
+      .setDesc(
+        'Change parameters for one mood, e.g. a long, low-temperature Plan breakdown or a terse, warmer Reflect prompt. Filled-in fields replace the style defaults above; the first matching override wins.'
+      )
+      .addButton((button) =>
+        button.setButtonText('Add override').onClick(async () => {
+          const override: MoodGenerationOverride = { mood: this.plugin.moods.resolve('plan').id, style: 'any' };
+          await saveOverrides([...overrides, override], true);
+        })
+      );
+
+    overrides.forEach((override, index) => {
+      const updateOverride = async (changes: Partial<MoodGenerationOverride>) => {
+        // Read the current list, earlier edits to this row don't re-render it
+        const next = [...settings.moodGenerationOverrides];
+        next[index] = { ...next[index], ...changes };
+        await saveOverrides(next, false);
+      };
+
+      new Setting(containerEl)
+        .setName(`Override ${index + 1}`)
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions(this.getMoodOptions(false))
+            .setValue(override.mood)
+            .onChange(async (value) => {
+              await updateOverride({ mood: value as Mood });
+            })
+        )
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption('any', 'Any style')
+            .addOption('muse', 'Muse')
+            .addOption('whisper', 'Whisper')
+            .setValue(override.style)
+            .onChange(async (value) => {
+              await updateOverride({ style: value as InteractionStyle | 'any' });
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('Max tokens')
+            .setValue(override.maxTokens?.toString() ?? '')
+            .onChange(async (value) => {
+              await updateOverride({ maxTokens: parseOptionalNumber(value) });
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('Temperature')
+            .setValue(override.temperature?.toString() ?? '')
+            .onChange(async (value) => {
+              await updateOverride({ temperature: parseOptionalNumber(value) });
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('Top P')
+            .setValue(override.topP?.toString() ?? '')
+            .onChange(async (value) => {
+              await updateOverride({ topP: parseOptionalNumber(value) });
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('Stop sequences')
+            .setValue(formatStopSequences(override.stopSequences))
+            .onChange(async (value) => {
+              await updateOverride({ stopSequences: parseStopSequences(value) });
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('x')
+            .setTooltip('Remove override')
+            .onClick(async () => {
+              await saveOverrides(
+                overrides.filter((_, i) => i !== index),
+                true
+              );
+            })
+        );
+    });
+  }
+
+  /**
+   * Display the usage ledger summary, spending caps and model prices
+   */
+  private displayUsageSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Usage & Spending' });
+
+    const settings = this.plugin.settings;
+    const ledger = this.plugin.ledger;
+    const today = ledger.getToday();
+    const month = ledger.getThisMonth();
+
+    const usageContainer = containerEl.createDiv({ cls: 'enchanted-notes-stats' });
+    usageContainer.createEl('p', {
+      text: `Today: ${today.requests} requests, ${today.inputTokens + today.outputTokens} tokens, ~${formatCost(today.cost)}`,
+    });
+    usageContainer.createEl('p', {
+      text: `This month: ${month.requests} requests, ${month.inputTokens + month.outputTokens} tokens, ~${formatCost(month.cost)}`,
+    });
+
+    // Break the month down by provider and model
+    const byModel = new Map<string, { tokens: number; cost: number }>();
+    for (const row of ledger.getRows(toDateKey().slice(0, 7))) {
+      const key = `${PROVIDER_LABELS[row.provider] ?? row.provider} · ${row.model || 'default model'}`;
+      const entry = byModel.get(key) ?? { tokens: 0, cost: 0 };
+      entry.tokens += row.inputTokens + row.outputTokens;
+      entry.cost += row.cost;
+      byModel.set(key, entry);
+    }
+    if (byModel.size > 0) {
+      const list = usageContainer.createEl('ul');
+      byModel.forEach((entry, key) => {
+        list.createEl('li', { text: `${key}: ${entry.tokens} tokens, ~${formatCost(entry.cost)}` });
+      });
+    }
+
+    const parseAmount = (value: string) => {
+      const cap = parseFloat(value);
+      return isNaN(cap) || cap < 0 ? 0 : cap;
+    };
+
+    new Setting(containerEl)
+      .setName('Daily spending cap')
+      .setDesc('Pause Muse and Whisper once today\'s estimated cost reaches this many US dollars. 0 turns the cap off.')
+      .addText((text) =>
+        text
+          .setPlaceholder('0')
+          .setValue(settings.dailySpendingCap ? settings.dailySpendingCap.toString() : '')
+          .onChange(async (value) => {
+            settings.dailySpendingCap = parseAmount(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Monthly spending cap')
+      .setDesc('Pause Muse and Whisper once this month\'s estimated cost reaches this many US dollars. 0 turns the cap off.')
+      .addText((text) =>
+        text
+          .setPlaceholder('0')
+          .setValue(settings.monthlySpendingCap ? settings.monthlySpendingCap.toString() : '')
+          .onChange(async (value) => {
+            settings.monthlySpendingCap = parseAmount(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    const savePrices = async (next: ModelPrice[], refresh: boolean) => {
+      settings.modelPrices = next;
+      await this.plugin.saveSettings();
+      if (refresh) {
+        this.display();
+      }
+    };
+
+    new Setting(containerEl)
+      .setName('Model prices')
+      .setDesc(
+        `Prices in US dollars per million input and output tokens, used for cost estimates and caps. Built in: ${DEFAULT_MODEL_PRICES.map((price) => price.model).join(', ')}. Models without a price count as free.`
+      )
+      .addButton((button) =>
+        button.setButtonText('Add price').onClick(async () => {
+          const price: ModelPrice = { model: '', inputPerMillion: 0, outputPerMillion: 0 };
+          await savePrices([...settings.modelPrices, price], true);
+        })
+      );
+
+    settings.modelPrices.forEach((price, index) => {
+      const updatePrice = async (changes: Partial<ModelPrice>) => {
+        // Read the current list, earlier edits to this row don't re-render it
+        const next = [...settings.modelPrices];
+        next[index] = { ...next[index], ...changes };
+        await savePrices(next, false);
+      };
+
+      new Setting(containerEl)
+        .setName(`Price ${index + 1}`)
+        .addText((text) =>
+          text
+            .setPlaceholder('Model id')
+            .setValue(price.model)
+            .onChange(async (value) => {
+              await updatePrice({ model: value.trim() });
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('Input $/M')
+            .setValue(price.inputPerMillion ? price.inputPerMillion.toString() : '')
+            .onChange(async (value) => {
+              await updatePrice({ inputPerMillion: parseAmount(value) });
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('Output $/M')
+            .setValue(price.outputPerMillion ? price.outputPerMillion.toString() : '')
+            .onChange(async (value) => {
+              await updatePrice({ outputPerMillion: parseAmount(value) });
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('x')
+            .setTooltip('Remove price')
+            .onClick(async () => {
+              await savePrices(
+                settings.modelPrices.filter((_, i) => i !== index),
+                true
+              );
+            })
+        );
+    });
+
+    new Setting(containerEl)
+      .setName('Clear usage history')
+      .setDesc('Delete the stored usage ledger. This also resets the totals the spending caps are checked against.')
+      .addButton((button) =>
+        button.setButtonText('Clear').onClick(async () => {
+          ledger.clear();
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+  }
+
+  /**
+   * Display where the Claude API key comes from, and the key or its location
+   */
+  private displayClaudeApiKey(containerEl: HTMLElement): void {
+    const settings = this.plugin.settings;
+    const secretStorage = getSecretStorage(this.app);
+
+    const sources: Partial<Record<ApiKeySource, string>> = { settings: API_KEY_SOURCE_LABELS.settings };
+    if (Platform.isDesktopApp) {
+      sources.env = API_KEY_SOURCE_LABELS.env;
+      sources.file = API_KEY_SOURCE_LABELS.file;
+    }
+    if (secretStorage) {
+      sources.secret = API_KEY_SOURCE_LABELS.secret;
+    }
+
+    new Setting(containerEl)
+      .setName('Claude API key source')
+      .setDesc('Where to read your Anthropic API key from. Keys in plugin settings are saved in plain text in data.json.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(sources as Record<string, string>)
+          .setValue(settings.claudeApiKeySource)
+          .onChange(async (value) => {
+            this.moveClaudeApiKey(value as ApiKeySource);
+            settings.claudeApiKeySource = value as ApiKeySource;
+            this.forgetSavedClaudeApiKey();
+            await this.plugin.saveSettings();
+            this.plugin.updateProviderConfig();
+            this.display();
+          })
+      );
+
+    // A key may have turned up since the source was picked, e.g. a variable set before a restart
+    if (this.forgetSavedClaudeApiKey()) {
+      this.plugin.saveSettings().catch((error) => console.error('Failed to save settings:', error));
+    }
+
+    // Shows whether a key was found, without revealing it
+    const describeKey = () => {
+      const key = resolveClaudeApiKey(this.app, settings);
+      const found = key ? `Key found: ${maskApiKey(key)}` : 'No key found.';
+      return settings.claudeApiKey
+        ? `${found} The key saved in plugin data is kept until one is found here.`
+        : found;
+    };
+
+    switch (settings.claudeApiKeySource) {
+      case 'settings': {
+        new Setting(containerEl)
+          .setName('Claude API Key')
+          .setDesc('Your Anthropic API key. Get one at console.anthropic.com')
+          .addText((text) => {
+            text.inputEl.type = 'password';
+            text
+              .setPlaceholder('sk-ant-...')
+              .setValue(settings.claudeApiKey)
+              .onChange(async (value) => {
+                settings.claudeApiKey = value;
+                await this.plugin.saveSettings();
+                this.plugin.updateProviderConfig();
+              });
+          });
+
+        const warningEl = containerEl.createDiv({ cls: 'enchanted-notes-warning' });
+        warningEl.hide();
+        detectSyncedVault(this.app).then((reason) => {
+          if (reason) {
+            warningEl.setText(
+              `Your API key is saved in plain text in this vault's plugin data, and ${reason}, so it will be copied to other devices or pushed with your notes. Choose another key source above to keep it out.`
+            );
+            warningEl.show();
+          }
+        });
+        break;
+      }
+
+      case 'env': {
+        const envSetting = new Setting(containerEl)
+          .setName('Environment variable')
+          .setDesc(describeKey())
+          .addText((text) =>
+            text
+              .setPlaceholder('ANTHROPIC_API_KEY')
+              .setValue(settings.claudeApiKeyEnvVar)
+              .onChange(async (value) => {
+                settings.claudeApiKeyEnvVar = value.trim();
+                this.forgetSavedClaudeApiKey();
+                await this.plugin.saveSettings();
+                this.plugin.updateProviderConfig();
+                envSetting.setDesc(describeKey());
+              })
+          );
+        containerEl.createEl('p', {
+          text: 'Obsidian only sees variables set when it was started. On macOS, apps opened from the Dock or Finder don\'t see variables from your shell profile.',
+          cls: 'setting-item-description',
+        });
+        break;
+      }
+
+      case 'file': {
+        const warningEl = containerEl.createDiv();
+        const updateWarning = () => {
+          warningEl.empty();
+          if (isInsideVault(this.app, settings.claudeApiKeyFile)) {
+            warningEl.createDiv({
+              text: 'This file is inside your vault, so it will be synced like a note. Keep it somewhere outside the vault.',
+              cls: 'enchanted-notes-warning',
+            });
+          }
+        };
+
+        const fileSetting = new Setting(containerEl)
+          .setName('Key file')
+          .setDesc(describeKey())
+          .addText((text) =>
+            text
+              .setPlaceholder('~/.config/anthropic/api-key')
+              .setValue(settings.claudeApiKeyFile)
+              .onChange(async (value) => {
+                settings.claudeApiKeyFile = value.trim();
+                this.forgetSavedClaudeApiKey();
+                await this.plugin.saveSettings();
+                this.plugin.updateProviderConfig();
+                fileSetting.setDesc(describeKey());
+                updateWarning();
+              })
+          );
+        // Keep the warning under the setting
+        containerEl.appendChild(warningEl);
+        updateWarning();
+        break;
+      }
+
+      case 'secret': {
+        const secretSetting = new Setting(containerEl)
+          .setName('Secret')
+          .setDesc(describeKey())
+          .addComponent((el) =>
+            new SecretComponent(this.app, el)
+              .setValue(settings.claudeApiKeySecret)
+              .onChange(async (value) => {
+                settings.claudeApiKeySecret = value;
+                this.forgetSavedClaudeApiKey();
+                await this.plugin.saveSettings();
+                this.plugin.updateProviderConfig();
+                secretSetting.setDesc(describeKey());
+              })
+          );
+        break;
+      }
+    }
+  }
+
+  /**
+   * When switching from plugin settings to secret storage, copy the saved
+   * key there. It leaves data.json in forgetSavedClaudeApiKey.
+   */
+  private moveClaudeApiKey(source: ApiKeySource): void {
+    const settings = this.plugin.settings;
+    if (settings.claudeApiKeySource !== 'settings' || source !== 'secret' || !settings.claudeApiKey) {
+      return;
+    }
+
+    const secretStorage = getSecretStorage(this.app);
+    if (secretStorage) {
+      secretStorage.setSecret(CLAUDE_SECRET_ID, settings.claudeApiKey);
+      settings.claudeApiKeySecret = CLAUDE_SECRET_ID;
+    }
+  }
+
+  /**
+   * Take the key saved in plugin settings out of data.json, but only once
+   * the current source has a key, so a mis-click can't lose it
+   * @returns Whether the saved key was removed; the caller saves settings
+   */
+  private forgetSavedClaudeApiKey(): boolean {
+    const settings = this.plugin.settings;
+    if (settings.claudeApiKeySource === 'settings' || !settings.claudeApiKey) {
+      return false;
+    }
+    if (!resolveClaudeApiKey(this.app, settings)) {
+      return false;
+    }
+
+    settings.claudeApiKey = '';
+    new Notice(`Removed the Claude API key saved in plugin data, now that ${API_KEY_SOURCE_LABELS[settings.claudeApiKeySource]} has one`);
+    return true;
+  }
+
+  /**
+   * Display Claude-specific settings
+   */
+  private displayClaudeSettings(containerEl: HTMLElement): void {
+    this.displayClaudeApiKey(containerEl);
+
+    const settings = this.plugin.settings;
+    let modelDropdown: DropdownComponent | null = null;
+    let customModelText: TextComponent | null = null;
+
+    const modelSetting = new Setting(containerEl)
+      .setName('Model')
+      .setDesc('The Claude model to use for responses. Pick one, or enter any model id.')
+      .addDropdown((dropdown) => {
+        modelDropdown = dropdown;
+        dropdown.onChange(async (value) => {
+          settings.claudeModel = value;
+          customModelText?.setValue('');
+          await this.plugin.saveSettings();
+          this.plugin.updateProviderConfig();
+          warningEl.hide();
+        });
+      })
+      .addText((text) => {
+        customModelText = text;
+        text.setPlaceholder('Custom model id').onChange(async (value) => {
+          if (!value.trim()) {
+            return;
+          }
+          settings.claudeModel = value.trim();
+          await this.plugin.saveSettings();
+          this.plugin.updateProviderConfig();
+        });
+      });
+
+    const warningEl = containerEl.createDiv({ cls: 'enchanted-notes-warning' });
+    warningEl.hide();
+
+    const showModels = (models: ClaudeModelInfo[], live: boolean) => {
+      if (!modelDropdown) {
+        return;
+      }
+
+      modelDropdown.selectEl.empty();
+      for (const model of models) {
+        modelDropdown.addOption(model.id, model.displayName);
+      }
+
+      const saved = settings.claudeModel;
+      const known = models.some((model) => model.id === saved);
+      if (saved && !known) {
+        modelDropdown.addOption(saved, `${saved} (custom)`);
+      }
+      modelDropdown.setValue(saved);
+      customModelText?.setValue(known ? '' : saved);
+
+      // Only the live list can tell us a model is gone
+      if (live && saved && !known) {
+        warningEl.setText(
+          `"${saved}" isn't available to your API key. It may have been retired; pick another model.`
+        );
+        warningEl.show();
+      } else {
+        warningEl.hide();
+      }
+    };
+
+    const loadModels = async (refresh: boolean) => {
+      const models = await this.plugin.fetchClaudeModels(refresh);
+      if (models) {
+        showModels(models, true);
+      } else if (refresh) {
+        new Notice("Couldn't load Claude models. Check your API key and connection.");
+      }
+    };
+
+    modelSetting.addExtraButton((button) =>
+      button
+        .setIcon('refresh-cw')
+        .setTooltip('Refresh models')
+        .onClick(() => loadModels(true))
+    );
+
+    // Start from the built-in list, then swap in the models the API offers
+    showModels(CLAUDE_MODELS, false);
+    loadModels(false);
+  }
+
+  /**
+   * Display Ollama-specific settings
+   */
+  private displayOllamaSettings(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Ollama Base URL')
+      .setDesc('The URL where Ollama is running')
+      .addText((text) =>
+        text
+          .setPlaceholder('http://localhost:11434')
+          .setValue(this.plugin.settings.ollamaBaseUrl)
+          .onChange(async (value) => {
+            this.plugin.settings.ollamaBaseUrl = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateProviderConfig();
+          })
+      );
+
+    // Model dropdown with refresh button
+    const modelSetting = new Setting(containerEl)
+      .setName('Model')
+      .setDesc('Select an Ollama model (click Refresh to load available models)');
+
+    modelSetting.addDropdown((dropdown) => {
+      this.ollamaModelDropdown = dropdown;
+
+      if (this.plugin.settings.ollamaModel) {
+        dropdown.addOption(this.plugin.settings.ollamaModel, this.plugin.settings.ollamaModel);
+        dropdown.setValue(this.plugin.settings.ollamaModel);
+      } else {
+        dropdown.addOption('', 'Select a model...');
+        dropdown.setValue('');
+      }
+
+      dropdown.onChange(async (value) => {
+        this.plugin.settings.ollamaModel = value;
+        await this.plugin.saveSettings();
+        this.plugin.updateProviderConfig();
+        this.showOllamaModelDetails(value);
+      });
+    });
+
+    modelSetting.addButton((button) =>
+      button.setButtonText('Refresh Models').onClick(async () => {
+        button.setDisabled(true);
+        button.setButtonText('Loading...');
+        await this.refreshOllamaModels();
+        button.setDisabled(false);
+        button.setButtonText('Refresh Models');
+      })
+    );
+
+    // Details of the selected model
+    this.ollamaDetailsEl = containerEl.createDiv({ cls: 'enchanted-notes-stats' });
+    this.showOllamaModelDetails(this.plugin.settings.ollamaModel);
+
+    new Setting(containerEl)
+      .setName('Keep model loaded')
+      .setDesc('How long Ollama keeps the model in memory after a request')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('5m', '5 minutes (Ollama default)')
+          .addOption('30m', '30 minutes')
+          .addOption('1h', '1 hour')
+          .addOption('24h', '24 hours')
+          .addOption('-1', 'Until Ollama stops')
+          .setValue(this.plugin.settings.ollamaKeepAlive)
+          .onChange(async (value) => {
+            this.plugin.settings.ollamaKeepAlive = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateProviderConfig();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Warm up on startup')
+      .setDesc('Load the model when Obsidian opens, so the first muse doesn\'t wait for a cold start')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.ollamaWarmUpOnStartup).onChange(async (value) => {
+          this.plugin.settings.ollamaWarmUpOnStartup = value;
+          await this.plugin.saveSettings();
+        })
+      )
+      .addButton((button) =>
+        button.setButtonText('Warm up now').onClick(async () => {
+          button.setDisabled(true);
+          button.setButtonText('Loading model...');
+
+          try {
+            await this.plugin.warmUpOllama();
+            new Notice(`${this.plugin.settings.ollamaModel} is loaded`);
+          } catch (error) {
+            new Notice(getErrorMessage(error));
+          }
+
+          button.setDisabled(false);
+          button.setButtonText('Warm up now');
+        })
+      );
+
+    this.displayOllamaPull(containerEl);
+  }
+
+  /**
+   * Reload the Ollama model dropdown from the server
+   */
+  private async refreshOllamaModels(): Promise<void> {
+    try {
+      const models = await this.plugin.fetchOllamaModels();
+
+      if (this.ollamaModelDropdown) {
+        // Clear existing options
+        this.ollamaModelDropdown.selectEl.empty();
+
+        if (models.length === 0) {
+          this.ollamaModelDropdown.addOption('', 'No models found');
+          new Notice('No Ollama models found. Make sure Ollama is running.');
+        } else {
+          for (const model of models) {
+            this.ollamaModelDropdown.addOption(model, model);
+          }
+
+          // Keep current selection if it exists
+          if (models.includes(this.plugin.settings.ollamaModel)) {
+            this.ollamaModelDropdown.setValue(this.plugin.settings.ollamaModel);
+          } else if (models.length > 0) {
+            // Select first model
+            this.ollamaModelDropdown.setValue(models[0]);
+            this.plugin.settings.ollamaModel = models[0];
+            await this.plugin.saveSettings();
+            this.plugin.updateProviderConfig();
+            this.showOllamaModelDetails(models[0]);
+          }
+
+          new Notice(`Found ${models.length} model(s)`);
+        }
+      }
+    } catch (error) {
+      new Notice('Failed to fetch models. Check if Ollama is running.');
+      console.error('Failed to fetch Ollama models:', error);
+    }
+  }
+
+  /**
+   * Show parameter size, quantization and context length of an Ollama model
+   */
+  private async showOllamaModelDetails(model: string): Promise<void> {
+    const detailsEl = this.ollamaDetailsEl;
+    if (!detailsEl) {
+      return;
+    }
+
+    detailsEl.empty();
+    if (!model) {
+      detailsEl.hide();
+      return;
+    }
+    detailsEl.show();
+    detailsEl.createEl('p', { text: `Loading details for ${model}...` });
+
+    try {
+      const details = await this.plugin.getOllamaModelDetails(model);
+      detailsEl.empty();
+      if (!details) {
+        detailsEl.hide();
+        return;
+      }
+
+      detailsEl.createEl('p', { text: `Family: ${details.family ?? 'unknown'}` });
+      detailsEl.createEl('p', { text: `Parameters: ${details.parameterSize ?? 'unknown'}` });
+      detailsEl.createEl('p', { text: `Quantization: ${details.quantization ?? 'unknown'}` });
+      detailsEl.createEl('p', {
+        text: `Context length: ${details.contextLength ? `${details.contextLength} tokens` : 'unknown'}`,
+      });
+    } catch (error) {
+      detailsEl.empty();
+      detailsEl.createEl('p', { text: getErrorMessage(error) });
+    }
+  }
+
+  /**
+   * Display the "pull a model" field with its progress bar
+   */
+  private displayOllamaPull(containerEl: HTMLElement): void {
+    let modelName = '';
+
+    const pullSetting = new Setting(containerEl)
+      .setName('Pull a model')
+      .setDesc('Download a model from the Ollama library, e.g. llama3.2 or qwen2.5:7b')
+      .addText((text) =>
+        text.setPlaceholder('llama3.2').onChange((value) => {
+          modelName = value.trim();
+        })
+      );
+
+    const progressEl = containerEl.createEl('progress', { cls: 'enchanted-notes-pull-progress' });
+    progressEl.max = 100;
+    progressEl.hide();
+    const statusEl = containerEl.createDiv({ cls: 'setting-item-description' });
+
+    pullSetting.addButton((button) =>
+      button.setButtonText('Pull').onClick(async () => {
+        // The button doubles as cancel while a pull is running
+        if (this.ollamaPullController) {
+          this.ollamaPullController.abort();
+          return;
+        }
+        if (!modelName) {
+          new Notice('Enter a model name to pull');
+          return;
+        }
+
+        const controller = new AbortController();
+        this.ollamaPullController = controller;
+        button.setButtonText('Cancel');
+        progressEl.show();
+        progressEl.removeAttribute('value');
+        statusEl.setText(`Pulling ${modelName}...`);
+
+        try {
+          await this.plugin.pullOllamaModel(
+            modelName,
+            (progress) => {
+              if (progress.total) {
+                progressEl.value = Math.round(((progress.completed ?? 0) / progress.total) * 100);
+                statusEl.setText(`${progress.status} (${progressEl.value}%)`);
+              } else {
+                // No byte counts for this step, show an indeterminate bar
+                progressEl.removeAttribute('value');
+                statusEl.setText(progress.status);
+              }
+            },
+            controller.signal
+          );
+
+          statusEl.setText(`Pulled ${modelName}`);
+          new Notice(`Pulled ${modelName}`);
+          await this.refreshOllamaModels();
+        } catch (error) {
+          statusEl.setText(isAbortError(error) ? 'Pull cancelled' : getErrorMessage(error));
+        } finally {
+          this.ollamaPullController = null;
+          progressEl.hide();
+          button.setButtonText('Pull');
+        }
+      })
+    );
+  }
+
+  /**
+   * Display record/replay mock provider settings
+   */
+  private displayMockSettings(containerEl: HTMLElement): void {
+    const settings = this.plugin.settings;
+    const saveMockSettings = async () => {
+      await this.plugin.saveSettings();
+      this.plugin.updateProviderConfig();
+    };
+
+    new Setting(containerEl)
+      .setName('Mode')
+      .setDesc(
+        'Replay answers from recorded responses without a network connection. Record passes requests to a real provider and saves its responses to the fixture file.'
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('replay', 'Replay')
+          .addOption('record', 'Record')
+          .setValue(settings.mockMode)
+          .onChange(async (value) => {
+            settings.mockMode = value as 'replay' | 'record';
+            await saveMockSettings();
+            this.display();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Fixture file')
+      .setDesc('Vault path of the JSON file holding recorded responses. Attach it to bug reports to reproduce a session.')
+      .addText((text) =>
+        text
+          .setPlaceholder('enchanted-notes-fixtures.json')
+          .setValue(settings.mockFixturePath)
+          .onChange(async (value) => {
+            settings.mockFixturePath = value.trim() || 'enchanted-notes-fixtures.json';
+            await saveMockSettings();
+            this.plugin.reloadMockFixture();
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('refresh-cw')
+          .setTooltip('Reload fixture file')
+          .onClick(() => {
+            this.plugin.reloadMockFixture();
+            new Notice('Fixture file will be reloaded on the next request');
+          })
+      );
+
+    if (settings.mockMode === 'record') {
+      const recordTypes = (Object.keys(PROVIDER_LABELS) as ProviderType[]).filter(
+        (type) => type !== 'mock'
+      );
+
+      new Setting(containerEl)
+        .setName('Record from')
+        .setDesc('The real provider whose responses are recorded')
+        .addDropdown((dropdown) => {
+          for (const type of recordTypes) {
+            dropdown.addOption(type, PROVIDER_LABELS[type]);
+          }
+          dropdown.setValue(settings.mockRecordProvider).onChange(async (value) => {
+            settings.mockRecordProvider = value as ProviderType;
+            await saveMockSettings();
+            this.display();
+          });
+        });
+
+      // The recorded provider needs its own connection settings
+      if (settings.mockRecordProvider !== 'mock') {
+        containerEl.createEl('h3', { text: `${PROVIDER_LABELS[settings.mockRecordProvider]} (recording)` });
+        this.displayProviderSettings(containerEl, settings.mockRecordProvider);
+      }
+      return;
+    }
+
+    new Setting(containerEl)
+      .setName('Chunk delay')
+      .setDesc('Milliseconds between streamed chunks for responses recorded without timing')
+      .addSlider((slider) =>
+        slider
+          .setLimits(0, 500, 10)
+          .setValue(settings.mockChunkDelayMs)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            settings.mockChunkDelayMs = value;
+            await saveMockSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Simulate error')
+      .setDesc('Fail every request with this error, to check how Muse and Whisper handle it')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('none', 'None')
+          .addOption('network', 'Network unreachable')
+          .addOption('rate-limited', 'Rate limited')
+          .addOption('overloaded', 'Overloaded')
+          .addOption('auth', 'Invalid API key')
+          .addOption('context-too-long', 'Context too long')
+          .setValue(settings.mockSimulatedError)
+          .onChange(async (value) => {
+            settings.mockSimulatedError = value as MockSimulatedError;
+            await saveMockSettings();
+          })
+      );
+  }
+
+  /**
+   * Display OpenAI-compatible server settings
+   */
+  private displayOpenAISettings(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Server Base URL')
+      .setDesc('The OpenAI-compatible endpoint, including /v1 (LM Studio: 1234, llama.cpp: 8080, vLLM: 8000)')
+      .addText((text) =>
+        text
+          .setPlaceholder('http://localhost:1234/v1')
+          .setValue(this.plugin.settings.openaiBaseUrl)
+          .onChange(async (value) => {
+            this.plugin.settings.openaiBaseUrl = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateProviderConfig();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('API Key')
+      .setDesc('Optional bearer key, only needed if your server requires one')
+      .addText((text) => {
+        text.inputEl.type = 'password';
+        text
+          .setPlaceholder('Optional')
+          .setValue(this.plugin.settings.openaiApiKey)
+          .onChange(async (value) => {
+            this.plugin.settings.openaiApiKey = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateProviderConfig();
+          });
+      });
+
+    // Model dropdown with refresh button
+    const modelSetting = new Setting(containerEl)
+      .setName('Model')
+      .setDesc('Select a model served by /v1/models (click Refresh to load available models)');
+
+    modelSetting.addDropdown((dropdown) => {
+      this.openaiModelDropdown = dropdown;
+
+      if (this.plugin.settings.openaiModel) {
+        dropdown.addOption(this.plugin.settings.openaiModel, this.plugin.settings.openaiModel);
+        dropdown.setValue(this.plugin.settings.openaiModel);
+      } else {
+        dropdown.addOption('', 'Select a model...');
+        dropdown.setValue('');
+      }
+
+      dropdown.onChange(async (value) => {
+        this.plugin.settings.openaiModel = value;
         await this.plugin.saveSettings();
         this.plugin.updateProviderConfig();
       });
@@ -317,27 +2151,27 @@ export class EnchantedNotesSettingTab extends PluginSettingTab {
         button.setButtonText('Loading...');
 
         try {
-          const models = await this.plugin.fetchOllamaModels();
+          const models = await this.plugin.fetchOpenAIModels();
 
-          if (this.ollamaModelDropdown) {
+          if (this.openaiModelDropdown) {
             // Clear existing options
-            this.ollamaModelDropdown.selectEl.empty();
+            this.openaiModelDropdown.selectEl.empty();
 
             if (models.length === 0) {
-              this.ollamaModelDropdown.addOption('', 'No models found');
-              new Notice('No Ollama models found. Make sure Ollama is running.');
+              this.openaiModelDropdown.addOption('', 'No models found');
+              new Notice('No models found. Make sure your server is running and a model is loaded.');
             } else {
               for (const model of models) {
-                this.ollamaModelDropdown.addOption(model, model);
+                this.openaiModelDropdown.addOption(model, model);
               }
 
               // Keep current selection if it exists
-              if (models.includes(this.plugin.settings.ollamaModel)) {
-                this.ollamaModelDropdown.setValue(this.plugin.settings.ollamaModel);
+              if (models.includes(this.plugin.settings.openaiModel)) {
+                this.openaiModelDropdown.setValue(this.plugin.settings.openaiModel);
               } else if (models.length > 0) {
                 // Select first model
-                this.ollamaModelDropdown.setValue(models[0]);
-                this.plugin.settings.ollamaModel = models[0];
+                this.openaiModelDropdown.setValue(models[0]);
+                this.plugin.settings.openaiModel = models[0];
                 await this.plugin.saveSettings();
                 this.plugin.updateProviderConfig();
               }
@@ -346,8 +2180,8 @@ export class EnchantedNotesSettingTab extends PluginSettingTab {
             }
           }
         } catch (error) {
-          new Notice('Failed to fetch models. Check if Ollama is running.');
-          console.error('Failed to fetch Ollama models:', error);
+          new Notice('Failed to fetch models. Check if your server is running.');
+          console.error('Failed to fetch OpenAI-compatible models:', error);
         }
 
         button.setDisabled(false);
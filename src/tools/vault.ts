@@ -0,0 +1,290 @@
+import { App, TFile, getAllTags, moment, normalizePath } from 'obsidian';
+import { ToolCall, ToolDefinition } from '../api/provider';
+import { getCleanContent } from '../utils/parser';
+
+/**
+ * Longest note text returned by read_note, in characters
+ */
+const MAX_NOTE_LENGTH = 6000;
+
+/**
+ * Most search results returned by search_notes
+ */
+const MAX_SEARCH_RESULTS = 10;
+
+/**
+ * Characters of context shown either side of a search match
+ */
+const EXCERPT_RADIUS = 100;
+
+/**
+ * Tools that let a muse look things up in the vault
+ */
+export const VAULT_TOOLS: ToolDefinition[] = [
+  {
+    name: 'search_notes',
+    description:
+      'Search the vault for notes containing some text or carrying a tag. Returns note names with a short excerpt around each match.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Text to look for in note names and content' },
+        tag: { type: 'string', description: 'Tag to filter by, e.g. "project" or "#project"' },
+        limit: { type: 'number', description: `Most results to return (up to ${MAX_SEARCH_RESULTS})` },
+      },
+    },
+  },
+  {
+    name: 'read_note',
+    description: 'Read a note by its name or [[link]] text.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Note name, e.g. "Meeting notes" or "Projects/Launch"' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'list_backlinks',
+    description: 'List the notes that link to a note. Defaults to the note being written.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Note name, leave out for the current note' },
+      },
+    },
+  },
+  {
+    name: 'get_daily_note',
+    description: "Read today's daily note.",
+    parameters: {
+      type: 'object',
+      properties: {},
+    },
+  },
+];
+
+/**
+ * Instruction appended to the system prompt when tools are offered
+ */
+export const VAULT_TOOLS_PROMPT = `You can look things up in the user's vault with tools: search their notes, read a note, list backlinks, or read today's daily note. Use them when another note would sharpen your response, for example to point out that the user argued the opposite in [[Another Note]]. Call any tools before writing anything, then respond as usual. Refer to notes as [[Note Name]].`;
+
+/**
+ * Daily notes core plugin settings, which Obsidian doesn't expose in its API
+ */
+interface DailyNoteOptions {
+  folder?: string;
+  format?: string;
+}
+
+/**
+ * Runs vault tool calls for one muse request and remembers which notes
+ * the model read, so they can be shown with the response.
+ */
+export class VaultTools {
+  private app: App;
+  private sourceFile: TFile;
+  private consulted: TFile[] = [];
+
+  /**
+   * @param sourceFile The note being written, excluded from search results
+   */
+  constructor(app: App, sourceFile: TFile) {
+    this.app = app;
+    this.sourceFile = sourceFile;
+  }
+
+  /**
+   * Notes the model read, in the order it first read them
+   */
+  getConsultedNotes(): TFile[] {
+    return [...this.consulted];
+  }
+
+  /**
+   * Run a tool call. Failures are returned as text so the model can recover.
+   */
+  execute = async (call: ToolCall): Promise<string> => {
+    try {
+      switch (call.name) {
+        case 'search_notes':
+          return await this.searchNotes(
+            this.getString(call.arguments.query),
+            this.getString(call.arguments.tag),
+            typeof call.arguments.limit === 'number' ? call.arguments.limit : 5
+          );
+        case 'read_note':
+          return await this.readNote(this.getString(call.arguments.name));
+        case 'list_backlinks':
+          return this.listBacklinks(this.getString(call.arguments.name));
+        case 'get_daily_note':
+          return await this.getDailyNote();
+        default:
+          return `Unknown tool "${call.name}".`;
+      }
+    } catch (error) {
+      console.error(`Vault tool ${call.name} failed:`, error);
+      return `The tool failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  };
+
+  /**
+   * Read a string argument, treating anything else as missing
+   */
+  private getString(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+  }
+
+  /**
+   * Remember that the model read a note
+   */
+  private markConsulted(file: TFile): void {
+    if (file.path !== this.sourceFile.path && !this.consulted.some((f) => f.path === file.path)) {
+      this.consulted.push(file);
+    }
+  }
+
+  /**
+   * Resolve a note name or link text to a file
+   */
+  private resolveNote(name: string): TFile | null {
+    const linkpath = name.replace(/^\[\[|\]\]$/g, '').split('|')[0].split('#')[0];
+    return this.app.metadataCache.getFirstLinkpathDest(linkpath, this.sourceFile.path);
+  }
+
+  /**
+   * Find notes by text or tag, most recently edited first
+   */
+  private async searchNotes(query: string, tag: string, limit: number): Promise<string> {
+    if (!query && !tag) {
+      return 'Give a query or a tag to search for.';
+    }
+
+    const max = Math.max(1, Math.min(MAX_SEARCH_RESULTS, Math.floor(limit)));
+    const needle = query.toLowerCase();
+    const wantedTag = tag ? `#${tag.replace(/^#/, '').toLowerCase()}` : '';
+
+    // Recently edited notes first, they're the likeliest to be relevant
+    const files = this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => file.path !== this.sourceFile.path)
+      .sort((a, b) => b.stat.mtime - a.stat.mtime);
+
+    const results: string[] = [];
+    for (const file of files) {
+      if (results.length >= max) break;
+
+      if (wantedTag) {
+        const cache = this.app.metadataCache.getFileCache(file);
+        const tags = cache ? getAllTags(cache) ?? [] : [];
+        // Nested tags match their parent, e.g. #project/launch for #project
+        if (!tags.some((t) => t.toLowerCase() === wantedTag || t.toLowerCase().startsWith(`${wantedTag}/`))) {
+          continue;
+        }
+      }
+
+      let excerpt = '';
+      if (needle) {
+        const content = getCleanContent(await this.app.vault.cachedRead(file));
+        const index = content.toLowerCase().indexOf(needle);
+        if (index === -1 && !file.basename.toLowerCase().includes(needle)) {
+          continue;
+        }
+        if (index !== -1) {
+          const start = Math.max(0, index - EXCERPT_RADIUS);
+          excerpt = content
+            .substring(start, index + needle.length + EXCERPT_RADIUS)
+            .replace(/\s+/g, ' ')
+            .trim();
+        }
+      }
+
+      results.push(excerpt ? `[[${file.basename}]]: …${excerpt}…` : `[[${file.basename}]]`);
+    }
+
+    return results.length > 0 ? results.join('\n') : 'No matching notes.';
+  }
+
+  /**
+   * Read a note by name
+   */
+  private async readNote(name: string): Promise<string> {
+    if (!name) {
+      return 'Give the name of the note to read.';
+    }
+
+    const file = this.resolveNote(name);
+    if (!file) {
+      return `No note named "${name}". Try search_notes to find it.`;
+    }
+
+    this.markConsulted(file);
+    return this.formatNote(file, await this.app.vault.cachedRead(file));
+  }
+
+  /**
+   * List the notes linking to a note
+   */
+  private listBacklinks(name: string): string {
+    const file = name ? this.resolveNote(name) : this.sourceFile;
+    if (!file) {
+      return `No note named "${name}".`;
+    }
+
+    const sources = Object.keys(this.app.metadataCache.resolvedLinks).filter(
+      (source) => source !== file.path && this.app.metadataCache.resolvedLinks[source][file.path]
+    );
+
+    const names = sources
+      .map((source) => this.app.vault.getAbstractFileByPath(source))
+      .filter((source): source is TFile => source instanceof TFile)
+      .map((source) => `[[${source.basename}]]`);
+
+    return names.length > 0 ? names.join('\n') : `Nothing links to [[${file.basename}]].`;
+  }
+
+  /**
+   * Read today's daily note, using the daily notes plugin's folder and format
+   */
+  private async getDailyNote(): Promise<string> {
+    const options = this.getDailyNoteOptions();
+    const basename = moment().format(options.format || 'YYYY-MM-DD');
+    const path = normalizePath(options.folder ? `${options.folder}/${basename}.md` : `${basename}.md`);
+
+    const file =
+      this.app.vault.getAbstractFileByPath(path) ??
+      this.app.metadataCache.getFirstLinkpathDest(basename, this.sourceFile.path);
+    if (!(file instanceof TFile)) {
+      return "Today's daily note doesn't exist yet.";
+    }
+    if (file.path === this.sourceFile.path) {
+      return "Today's daily note is the note being written.";
+    }
+
+    this.markConsulted(file);
+    return this.formatNote(file, await this.app.vault.cachedRead(file));
+  }
+
+  /**
+   * Read the daily notes core plugin's folder and date format
+   */
+  private getDailyNoteOptions(): DailyNoteOptions {
+    const internalPlugins = (this.app as unknown as {
+      internalPlugins?: {
+        getPluginById(id: string): { instance?: { options?: DailyNoteOptions } } | null;
+      };
+    }).internalPlugins;
+    return internalPlugins?.getPluginById('daily-notes')?.instance?.options ?? {};
+  }
+
+  /**
+   * Format a note for the model, without enchantments and trimmed to length
+   */
+  private formatNote(file: TFile, content: string): string {
+    const clean = getCleanContent(content);
+    const text =
+      clean.length > MAX_NOTE_LENGTH ? `${clean.substring(0, MAX_NOTE_LENGTH)}\n[…truncated]` : clean;
+    return `--- ${file.basename} ---\n${text}`;
+  }
+}
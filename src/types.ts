@@ -1,11 +1,59 @@
 // Interaction styles - how Claude responds
 export type InteractionStyle = 'muse' | 'whisper';
 
-// Moods - what Claude says
-export type Mood = 'reflect' | 'think' | 'plan';
+// Moods - what Claude says, the ID of a mood in the mood registry
+export type Mood = string;
+
+// A mood: the prompts it uses and the notes it applies to
+export interface MoodDefinition {
+  id: string; // used in enchant-mood frontmatter, commands and routing rules
+  name: string;
+  description: string;
+  musePrompt: string;
+  whisperPrompt: string;
+  keywords: string[]; // phrases (or /regular expressions/) that suggest the mood
+  folders: string[]; // notes in folders with these names use the mood
+  types: string[]; // notes with these frontmatter types use the mood
+  sourcePath?: string; // the mood note it was loaded from, edited there rather than in settings
+}
 
 // Provider type
-export type ProviderType = 'claude' | 'ollama';
+export type ProviderType = 'claude' | 'ollama' | 'openai' | 'mock';
+
+// Where an API key is read from
+export type ApiKeySource = 'settings' | 'env' | 'file' | 'secret';
+
+// Error the mock provider can be told to fail every request with
+export type MockSimulatedError = 'none' | 'network' | 'rate-limited' | 'overloaded' | 'auth' | 'context-too-long';
+
+// Routes requests for a style and mood to a provider and model
+export interface RoutingRule {
+  style: InteractionStyle | 'any';
+  mood: Mood | 'any';
+  provider: ProviderType;
+  model: string; // empty uses the provider's configured model
+}
+
+// Sampling parameters for a request, unset fields use the backend's defaults
+export interface GenerationParams {
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  stopSequences?: string[];
+}
+
+// Generation parameters for one mood, optionally limited to one style
+export interface MoodGenerationOverride extends GenerationParams {
+  mood: Mood;
+  style: InteractionStyle | 'any';
+}
+
+// Price of a model in USD per million tokens, used for cost estimates
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
 
 // Plugin settings interface
 export interface EnchantedNotesSettings {
@@ -13,17 +61,74 @@ export interface EnchantedNotesSettings {
   provider: ProviderType;
 
   // Claude settings
-  claudeApiKey: string;
+  claudeApiKey: string; // only used when claudeApiKeySource is 'settings'
+  claudeApiKeySource: ApiKeySource;
+  claudeApiKeyEnvVar: string;
+  claudeApiKeyFile: string; // absolute path, ~ for the home directory
+  claudeApiKeySecret: string; // ID in Obsidian's secret storage
   claudeModel: string;
 
   // Ollama settings
   ollamaBaseUrl: string;
   ollamaModel: string;
+  ollamaKeepAlive: string; // how long the model stays loaded, e.g. "5m" or "-1" for always
+  ollamaWarmUpOnStartup: boolean;
+
+  // OpenAI-compatible settings (LM Studio, llama.cpp server, vLLM)
+  openaiBaseUrl: string;
+  openaiApiKey: string;
+  openaiModel: string;
+
+  // Mock provider: replays recorded responses, or records them from a real provider
+  mockMode: 'replay' | 'record';
+  mockRecordProvider: ProviderType;
+  mockFixturePath: string; // vault-relative path of the fixture file
+  mockChunkDelayMs: number;
+  mockSimulatedError: MockSimulatedError;
+
+  // Backends to try, in order, when the primary provider is unreachable
+  fallbackProviders: ProviderType[];
+
+  // Most requests each provider runs at once, the rest wait in a shared queue
+  providerConcurrency: Record<ProviderType, number>;
+
+  // Per-style and per-mood model routing, first matching rule wins
+  routingRules: RoutingRule[];
+
+  // Generation parameters per style, and per-mood overrides (first match wins)
+  generationParams: Record<InteractionStyle, GenerationParams>;
+  moodGenerationOverrides: MoodGenerationOverride[];
+
+  // Spending caps in estimated USD, 0 means no cap
+  dailySpendingCap: number;
+  monthlySpendingCap: number;
+
+  // Prices for models missing from the built-in price list, or to override it
+  modelPrices: ModelPrice[];
+
+  // Cache whole responses to identical requests, in the plugin folder
+  responseCacheEnabled: boolean;
+  responseCacheTtlHours: number;
+  responseCacheMaxEntries: number;
+
+  // Let muses search and read the vault with tools before responding
+  museToolsEnabled: boolean;
+  museToolRounds: number; // most rounds of tool calls per response
+
+  // Moods, empty uses the built-in moods
+  moods: MoodDefinition[];
+  moodFolder: string; // notes in this folder define moods too, empty turns it off
+  userName: string; // {{user.name}} in mood prompts
+
+  // Language of responses
+  detectLanguage: boolean; // answer in the language the note is written in
+  defaultLanguage: string; // language code used when it can't be detected, empty leaves it to the model
 
   // Behavior
   defaultStyle: InteractionStyle | 'off';
   defaultMood: Mood | 'auto';
   pauseDuration: number; // in seconds
+  whisperMinConfidence: number; // 0-1, less confident whispers aren't shown
   enableLinkedNoteContext: boolean;
   linkedNoteDepth: number; // 1-3
 
@@ -34,12 +139,53 @@ export interface EnchantedNotesSettings {
 export const DEFAULT_SETTINGS: EnchantedNotesSettings = {
   provider: 'claude',
   claudeApiKey: '',
+  claudeApiKeySource: 'settings',
+  claudeApiKeyEnvVar: 'ANTHROPIC_API_KEY',
+  claudeApiKeyFile: '',
+  claudeApiKeySecret: '',
   claudeModel: 'claude-sonnet-4-20250514',
   ollamaBaseUrl: 'http://localhost:11434',
   ollamaModel: '',
+  ollamaKeepAlive: '5m',
+  ollamaWarmUpOnStartup: false,
+  openaiBaseUrl: 'http://localhost:1234/v1',
+  openaiApiKey: '',
+  openaiModel: '',
+  mockMode: 'replay',
+  mockRecordProvider: 'claude',
+  mockFixturePath: 'enchanted-notes-fixtures.json',
+  mockChunkDelayMs: 40,
+  mockSimulatedError: 'none',
+  fallbackProviders: [],
+  providerConcurrency: {
+    claude: 2,
+    ollama: 1,
+    openai: 1,
+    mock: 1,
+  },
+  routingRules: [],
+  generationParams: {
+    muse: { maxTokens: 300 },
+    whisper: { maxTokens: 100 },
+  },
+  moodGenerationOverrides: [],
+  dailySpendingCap: 0,
+  monthlySpendingCap: 0,
+  modelPrices: [],
+  responseCacheEnabled: true,
+  responseCacheTtlHours: 24,
+  responseCacheMaxEntries: 500,
+  museToolsEnabled: false,
+  museToolRounds: 3,
+  moods: [],
+  moodFolder: '',
+  userName: '',
+  detectLanguage: true,
+  defaultLanguage: '',
   defaultStyle: 'muse',
   defaultMood: 'auto',
   pauseDuration: 2,
+  whisperMinConfidence: 0.6,
   enableLinkedNoteContext: false,
   linkedNoteDepth: 1,
   showDeveloperPanel: false,
@@ -62,16 +208,40 @@ export interface LLMContext {
   style: InteractionStyle;
   linkedNotes?: string[];
   notePath: string;
+  persona?: string; // enchant-persona, added to the system prompt
+  promptNote?: string; // prompt from the note linked by enchant-prompt, used instead of the mood's
+  model?: string; // enchant-model, optionally "provider:model"
+  language?: string; // language name to respond in, e.g. "German"
 }
 
 // Developer stats
 export interface DeveloperStats {
   tokensThisSession: number;
   tokensToday: number;
+  inputTokensThisSession: number;
+  outputTokensThisSession: number;
   lastResponseTime: number;
+  lastTokensPerSecond: number; // output tokens per second of the last response
+  lastLoadTime: number; // ms spent loading the model (local providers only)
+  cacheReadTokensThisSession: number; // prompt tokens served from the provider's cache
+  cacheWriteTokensThisSession: number; // prompt tokens written to the provider's cache
+  lastCacheReadTokens: number;
+  lastCacheWriteTokens: number;
+  responseCacheHitsThisSession: number; // requests answered from the response cache
   currentContextSize: number;
 }
 
+// Usage ledger row - one per day, provider and model
+export interface UsageRow {
+  date: string; // YYYY-MM-DD, local time
+  provider: ProviderType;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // estimated USD
+}
+
 // Per-note state
 export interface NoteState {
   museEnabled: boolean;
@@ -5,6 +5,32 @@ export interface EnchantmentFrontmatter {
   style?: InteractionStyle;
   mood?: Mood;
   type?: string; // e.g., 'journal', 'essay', 'project'
+  persona?: string; // instructions added to the mood's prompt for this note
+  prompt?: string; // link path of a note whose prompt replaces the mood's
+  model?: string; // model for this note, optionally "provider:model"
+  language?: string; // language code or name to respond in
+}
+
+/**
+ * Read a frontmatter link such as "[[Skeptical Investor]]" as a link path.
+ * An unquoted [[link]] is parsed by YAML as a nested list.
+ */
+function readLinkpath(value: unknown): string | undefined {
+  let item = value;
+  while (Array.isArray(item) && item.length > 0) {
+    item = item[0];
+  }
+  if (typeof item !== 'string') {
+    return undefined;
+  }
+
+  const link = item
+    .trim()
+    .replace(/^!?\[\[|\]\]$/g, '')
+    .split('|')[0]
+    .split('#')[0]
+    .trim();
+  return link || undefined;
 }
 
 /**
@@ -30,12 +56,9 @@ export function getEnchantmentFrontmatter(
     }
   }
 
-  // Check for explicit enchant-mood
+  // Check for explicit enchant-mood, matched against the mood registry later
   if (fm['enchant-mood']) {
-    const mood = fm['enchant-mood'].toLowerCase();
-    if (mood === 'reflect' || mood === 'think' || mood === 'plan') {
-      result.mood = mood;
-    }
+    result.mood = String(fm['enchant-mood']).toLowerCase();
   }
 
   // Check for type tag (used for mood inference)
@@ -43,31 +66,25 @@ export function getEnchantmentFrontmatter(
     result.type = fm['type'].toLowerCase();
   }
 
-  return result;
-}
+  // Per-note prompt overrides
+  const persona = fm['enchant-persona'];
+  if (persona) {
+    result.persona = (Array.isArray(persona) ? persona.join('\n') : String(persona)).trim() || undefined;
+  }
 
-/**
- * Infer mood from frontmatter type tag
- */
-export function inferMoodFromType(type: string): Mood | null {
-  const typeMap: Record<string, Mood> = {
-    journal: 'reflect',
-    diary: 'reflect',
-    reflection: 'reflect',
-    essay: 'think',
-    writing: 'think',
-    article: 'think',
-    idea: 'think',
-    ideas: 'think',
-    project: 'plan',
-    todo: 'plan',
-    task: 'plan',
-    tasks: 'plan',
-    plan: 'plan',
-    planning: 'plan',
-  };
+  if (fm['enchant-prompt']) {
+    result.prompt = readLinkpath(fm['enchant-prompt']);
+  }
 
-  return typeMap[type.toLowerCase()] || null;
+  if (fm['enchant-model']) {
+    result.model = String(fm['enchant-model']).trim() || undefined;
+  }
+
+  if (fm['enchant-language']) {
+    result.language = String(fm['enchant-language']).trim() || undefined;
+  }
+
+  return result;
 }
 
 /**
@@ -5,6 +5,8 @@ const INLINE_MUSE_PATTERN = /::muse\[(.*?)\]::/g;
 const INLINE_WHISPER_PATTERN = /::whisper\[(.*?)\]::/g;
 const MULTILINE_MUSE_PATTERN = /:::muse\n([\s\S]*?)\n:::/g;
 const MULTILINE_WHISPER_PATTERN = /:::whisper\n([\s\S]*?)\n:::/g;
+// Notes a muse read, written on the line after its block
+const CONSULTED_PATTERN = /::consulted\[(.*?)\]::/g;
 
 /**
  * Parse all enchantment blocks from a document
@@ -89,6 +91,14 @@ export function createWhisperBlock(content: string, multiline: boolean = false):
   return `::whisper[${content}]::`;
 }
 
+/**
+ * Create the line listing the notes a muse read
+ * @param links Link text for each note, as used inside [[ ]]
+ */
+export function createConsultedLine(links: string[]): string {
+  return `::consulted[ ${links.map((link) => `[[${link}]]`).join(', ')} ]::`;
+}
+
 /**
  * Remove all enchantment blocks from content
  */
@@ -102,6 +112,7 @@ export function removeAllEnchantments(content: string): string {
   // Remove inline blocks
   result = result.replace(INLINE_MUSE_PATTERN, '');
   result = result.replace(INLINE_WHISPER_PATTERN, '');
+  result = result.replace(CONSULTED_PATTERN, '');
 
   // Clean up any resulting double newlines
   result = result.replace(/\n{3,}/g, '\n\n');
@@ -123,3 +134,63 @@ export function isInsideEnchantment(content: string, position: number): boolean
 export function getCleanContent(content: string): string {
   return removeAllEnchantments(content).trim();
 }
+
+/**
+ * A single turn in a muse conversation reconstructed from a note
+ */
+export interface MuseExchangeTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Split note content into alternating turns: the user's writing between
+ * muse blocks, and the muse blocks themselves as assistant replies.
+ * Whisper blocks are dropped, empty writing is skipped and adjacent turns
+ * from the same role are merged so the result always alternates.
+ */
+export function splitMuseExchanges(content: string): MuseExchangeTurn[] {
+  const turns: MuseExchangeTurn[] = [];
+  const museBlocks = parseEnchantments(content).filter((block) => block.type === 'muse');
+
+  const pushTurn = (role: MuseExchangeTurn['role'], text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    const previous = turns[turns.length - 1];
+    if (previous && previous.role === role) {
+      previous.content += `\n\n${trimmed}`;
+    } else {
+      turns.push({ role, content: trimmed });
+    }
+  };
+
+  let cursor = 0;
+  for (const block of museBlocks) {
+    // Nested matches (inline syntax inside a multiline block) are already covered
+    if (block.start < cursor) {
+      continue;
+    }
+
+    pushTurn('user', removeAllEnchantments(content.substring(cursor, block.start)));
+    pushTurn('assistant', block.content);
+    cursor = block.end;
+  }
+
+  pushTurn('user', removeAllEnchantments(content.substring(cursor)));
+
+  return turns;
+}
+
+/**
+ * Find where the last paragraph of some text starts. Everything before it is
+ * writing the user has moved on from, which rarely changes between requests.
+ * @returns The offset of the last paragraph, or 0 if there is only one
+ */
+export function findLastParagraphStart(text: string): number {
+  const trimmed = text.replace(/\s+$/, '');
+  const index = trimmed.lastIndexOf('\n\n');
+  return index === -1 ? 0 : index + 2;
+}
@@ -0,0 +1,122 @@
+import { App, FileSystemAdapter, Platform, SecretStorage } from 'obsidian';
+import { ApiKeySource, EnchantedNotesSettings } from '../types';
+
+/**
+ * Secret storage ID used when moving a saved key out of plugin data
+ */
+export const CLAUDE_SECRET_ID = 'enchanted-notes-claude-api-key';
+
+/**
+ * Folder names of sync services that commonly hold vaults
+ */
+const SYNCED_PATH_PATTERN = /(Dropbox|OneDrive|Google ?Drive|iCloud|Mobile Documents|CloudStorage|Nextcloud|Syncthing)/i;
+
+/**
+ * Get Obsidian's secret storage, which only exists from Obsidian 1.11.4
+ */
+export function getSecretStorage(app: App): SecretStorage | null {
+  return (app as Partial<Pick<App, 'secretStorage'>>).secretStorage ?? null;
+}
+
+/**
+ * Expand a leading ~ to the user's home directory
+ */
+function expandHome(path: string): string {
+  if (!path.startsWith('~')) {
+    return path;
+  }
+  const os = require('os') as typeof import('os');
+  return os.homedir() + path.slice(1);
+}
+
+/**
+ * Read the Claude API key from wherever the settings say it is kept.
+ * Environment variables and key files are desktop-only.
+ * @returns The key, or an empty string if it isn't available
+ */
+export function resolveClaudeApiKey(app: App, settings: EnchantedNotesSettings): string {
+  try {
+    switch (settings.claudeApiKeySource) {
+      case 'settings':
+        return settings.claudeApiKey.trim();
+      case 'env':
+        if (!Platform.isDesktopApp || !settings.claudeApiKeyEnvVar) {
+          return '';
+        }
+        return (process.env[settings.claudeApiKeyEnvVar] ?? '').trim();
+      case 'file': {
+        if (!Platform.isDesktopApp || !settings.claudeApiKeyFile) {
+          return '';
+        }
+        const fs = require('fs') as typeof import('fs');
+        return fs.readFileSync(expandHome(settings.claudeApiKeyFile), 'utf8').trim();
+      }
+      case 'secret':
+        if (!settings.claudeApiKeySecret) {
+          return '';
+        }
+        return (getSecretStorage(app)?.getSecret(settings.claudeApiKeySecret) ?? '').trim();
+    }
+  } catch (error) {
+    console.error(`Couldn't read the Claude API key from its ${settings.claudeApiKeySource} source:`, error);
+    return '';
+  }
+}
+
+/**
+ * Show just enough of a key to tell keys apart
+ */
+export function maskApiKey(key: string): string {
+  return key.length > 12 ? `${key.slice(0, 7)}…${key.slice(-4)}` : '•'.repeat(key.length);
+}
+
+/**
+ * Check whether a key file sits inside the vault, where it would be synced like any note
+ */
+export function isInsideVault(app: App, path: string): boolean {
+  const adapter = app.vault.adapter;
+  if (!(adapter instanceof FileSystemAdapter) || !path) {
+    return false;
+  }
+  const base = adapter.getBasePath().replace(/\\/g, '/').replace(/\/$/, '');
+  const target = expandHome(path).replace(/\\/g, '/');
+  return target === base || target.startsWith(`${base}/`);
+}
+
+/**
+ * Work out whether plugin data is likely to be copied off this device:
+ * Obsidian Sync, a git repository or a vault inside a cloud sync folder.
+ * @returns Why the vault looks synced, or null if it doesn't
+ */
+export async function detectSyncedVault(app: App): Promise<string | null> {
+  const internalPlugins = (app as unknown as {
+    internalPlugins?: { getPluginById(id: string): { enabled?: boolean } | null };
+  }).internalPlugins;
+  if (internalPlugins?.getPluginById('sync')?.enabled) {
+    return 'Obsidian Sync is on';
+  }
+
+  if (await app.vault.adapter.exists('.git')) {
+    return 'the vault is a git repository';
+  }
+
+  const adapter = app.vault.adapter;
+  if (adapter instanceof FileSystemAdapter) {
+    const match = SYNCED_PATH_PATTERN.exec(adapter.getBasePath());
+    if (match) {
+      return `the vault is in a ${match[1]} folder`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Display labels for each API key source
+ */
+export const API_KEY_SOURCE_LABELS: Record<ApiKeySource, string> = {
+  settings: 'Plugin settings (data.json)',
+  env: 'Environment variable',
+  file: 'File outside the vault',
+  secret: "Obsidian's secret storage",
+};
@@ -0,0 +1,154 @@
+/**
+ * Values a template can refer to, e.g. { note: { title: 'Monday' } } for {{note.title}}
+ */
+export type TemplateVariables = Record<string, unknown>;
+
+/**
+ * A parsed piece of a template
+ */
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; path: string }
+  | { type: 'if'; condition: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+/**
+ * A block being parsed: its nodes so far, and the branch text goes into
+ */
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'if' }> | null;
+  nodes: TemplateNode[];
+}
+
+const TAG_PATTERN = /\{\{\s*(#if|#unless|else|\/if|\/unless)?\s*([^}]*?)\s*\}\}/g;
+
+/**
+ * A condition comparing a variable with a quoted string, e.g. weekday == "Monday"
+ */
+const COMPARISON_PATTERN = /^([\w.-]+)\s*(==|!=)\s*"([^"]*)"$/;
+
+/**
+ * Parse a template into nodes. Unclosed blocks end with the template, and
+ * stray closing tags are kept as text so mistakes show up in the preview.
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: OpenBlock = { node: null, nodes: [] };
+  const stack: OpenBlock[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const pattern = new RegExp(TAG_PATTERN.source, TAG_PATTERN.flags);
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(template)) !== null) {
+    if (match.index > lastIndex) {
+      current().nodes.push({ type: 'text', text: template.substring(lastIndex, match.index) });
+    }
+    lastIndex = match.index + match[0].length;
+
+    const [tag, keyword, argument] = match;
+    const block = current();
+
+    if (keyword === '#if' || keyword === '#unless') {
+      const node: TemplateNode = { type: 'if', condition: argument, negate: keyword === '#unless', then: [], otherwise: [] };
+      block.nodes.push(node);
+      stack.push({ node, nodes: node.then });
+    } else if (keyword === 'else' && block.node) {
+      block.nodes = block.node.otherwise;
+    } else if ((keyword === '/if' || keyword === '/unless') && block.node) {
+      stack.pop();
+    } else if (keyword) {
+      block.nodes.push({ type: 'text', text: tag });
+    } else {
+      block.nodes.push({ type: 'variable', path: argument });
+    }
+  }
+
+  if (lastIndex < template.length) {
+    current().nodes.push({ type: 'text', text: template.substring(lastIndex) });
+  }
+
+  return root.nodes;
+}
+
+/**
+ * Look up a dotted path, e.g. frontmatter.status
+ */
+function lookup(variables: TemplateVariables, path: string): unknown {
+  let value: unknown = variables;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Format a value for the prompt: lists are comma-separated, missing values empty
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(', ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Evaluate a condition: a variable that is set and not empty, or a comparison
+ */
+function isTrue(variables: TemplateVariables, condition: string): boolean {
+  const comparison = COMPARISON_PATTERN.exec(condition);
+  if (comparison) {
+    const [, path, operator, expected] = comparison;
+    const equal = formatValue(lookup(variables, path)).toLowerCase() === expected.toLowerCase();
+    return operator === '==' ? equal : !equal;
+  }
+
+  const value = lookup(variables, condition);
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return value !== undefined && value !== null && value !== false && value !== 0 && value !== '';
+}
+
+/**
+ * Render parsed nodes
+ */
+function renderNodes(nodes: TemplateNode[], variables: TemplateVariables): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'variable':
+          return formatValue(lookup(variables, node.path));
+        case 'if':
+          return renderNodes(
+            isTrue(variables, node.condition) !== node.negate ? node.then : node.otherwise,
+            variables
+          );
+      }
+    })
+    .join('');
+}
+
+/**
+ * Render a prompt template. {{path}} inserts a variable, and
+ * {{#if path}}…{{else}}…{{/if}} (or #unless) keeps text only when a variable
+ * is set, or when it equals a string: {{#if weekday == "Monday"}}.
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  if (template.indexOf('{{') === -1) {
+    return template;
+  }
+  return renderNodes(parseTemplate(template), variables)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
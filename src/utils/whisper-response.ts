@@ -0,0 +1,151 @@
+import { ResponseFormat } from '../api/provider';
+
+/**
+ * What a whisper points out
+ */
+export type WhisperCategory = 'pattern' | 'connection' | 'tension' | 'emotion' | 'gap' | 'clarity' | 'other';
+
+export const WHISPER_CATEGORIES: WhisperCategory[] = [
+  'pattern',
+  'connection',
+  'tension',
+  'emotion',
+  'gap',
+  'clarity',
+  'other',
+];
+
+/**
+ * A validated whisper response
+ */
+export interface WhisperResponse {
+  shouldWhisper: boolean;
+  /** Short quote from the note the observation is about */
+  anchor: string;
+  observation: string;
+  category: WhisperCategory;
+  /** How sure the model is the observation is worth showing, 0 to 1 */
+  confidence: number;
+}
+
+/**
+ * Extra tokens allowed on top of the whisper's max tokens for the JSON around the observation
+ */
+export const STRUCTURED_RESPONSE_TOKENS = 100;
+
+/**
+ * Schema whisper responses are requested in
+ */
+export const WHISPER_RESPONSE_FORMAT: ResponseFormat = {
+  name: 'whisper',
+  description: 'Report whether the writing deserves a margin note, and the note itself.',
+  schema: {
+    type: 'object',
+    properties: {
+      should_whisper: {
+        type: 'boolean',
+        description: 'false unless there is something genuinely worth noting',
+      },
+      anchor: {
+        type: 'string',
+        description: 'A short exact quote (a few words) from the note that the observation is about',
+      },
+      observation: {
+        type: 'string',
+        description: 'The margin note, one short sentence. Empty when should_whisper is false.',
+      },
+      category: {
+        type: 'string',
+        enum: WHISPER_CATEGORIES,
+        description: 'What kind of observation this is',
+      },
+      confidence: {
+        type: 'number',
+        description: 'How sure you are this is worth interrupting the writer for, from 0 to 1',
+      },
+    },
+    required: ['should_whisper', 'anchor', 'observation', 'category', 'confidence'],
+  },
+};
+
+/**
+ * Instruction appended to whisper prompts describing the response format
+ */
+export const WHISPER_RESPONSE_PROMPT = `Respond with a single JSON object and nothing else:
+{"should_whisper": boolean, "anchor": string, "observation": string, "category": ${WHISPER_CATEGORIES.map((c) => `"${c}"`).join(' | ')}, "confidence": number}
+
+- should_whisper: false unless you have something genuinely useful to observe. Most of the time it should be false.
+- anchor: a few words quoted exactly from the note that the observation is about.
+- observation: the margin note itself, one short sentence, or "" when should_whisper is false.
+- confidence: from 0 to 1, how sure you are the observation is worth interrupting the writer for.`;
+
+/**
+ * System prompt for turning a malformed response into valid JSON
+ */
+export const WHISPER_REPAIR_PROMPT = `The text below was meant to be a JSON object with these fields, but it isn't valid:
+{"should_whisper": boolean, "anchor": string, "observation": string, "category": ${WHISPER_CATEGORIES.map((c) => `"${c}"`).join(' | ')}, "confidence": number}
+
+Rewrite it as that JSON object, keeping its meaning. If it doesn't contain a clear observation, set should_whisper to false. Respond with the JSON object only.`;
+
+/**
+ * Read a confidence value, accepting strings and percentages
+ */
+function parseConfidence(value: unknown): number | null {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof number !== 'number' || isNaN(number)) {
+    return null;
+  }
+  const fraction = number > 1 && number <= 100 ? number / 100 : number;
+  return Math.max(0, Math.min(1, fraction));
+}
+
+/**
+ * Parse and validate a whisper response.
+ * Tolerates code fences and text around the object, and the old
+ * "NO_WHISPER" reply.
+ * @returns The response, or null if it can't be understood
+ */
+export function parseWhisperResponse(text: string): WhisperResponse | null {
+  const trimmed = text.trim();
+  if (trimmed === 'NO_WHISPER') {
+    return { shouldWhisper: false, anchor: '', observation: '', category: 'other', confidence: 0 };
+  }
+
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(trimmed.substring(start, end + 1)) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null) {
+    return null;
+  }
+
+  const flag = data.should_whisper;
+  const shouldWhisper = flag === true || flag === 'true';
+  if (!shouldWhisper && flag !== false && flag !== 'false') {
+    return null;
+  }
+
+  const observation = typeof data.observation === 'string' ? data.observation.trim() : '';
+  const confidence = parseConfidence(data.confidence);
+  if (shouldWhisper && (!observation || confidence === null)) {
+    return null;
+  }
+
+  const category = WHISPER_CATEGORIES.find((c) => c === data.category) ?? 'other';
+
+  return {
+    shouldWhisper,
+    anchor: typeof data.anchor === 'string' ? data.anchor.trim() : '',
+    observation,
+    category,
+    confidence: confidence ?? 0,
+  };
+}